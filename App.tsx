@@ -1,11 +1,21 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { generateMovie, generateMovieFromAudio, assignVoices } from './services/geminiService';
-import { Movie, GenerationState, VisualStyle, CharacterConfig, SceneCount, AudioMode, AspectRatio } from './types';
+import { generateMovie, generateMovieFromAudio, generateScript, produceMovie, assignVoices, getVoiceMap, repairMovie, GenerationOptions } from './services/geminiService';
+import { Movie, GenerationState, GenerationProgress, VisualStyle, CharacterConfig, MovieLength, AudioMode, AspectRatio } from './types';
 import { MovieScreen } from './components/MovieScreen';
 import { SceneEditor } from './components/SceneEditor';
 import { Button } from './components/Button';
 import { trimAudio, getAudioDuration } from './utils/audioUtils';
-import { Sparkles, Video, Clapperboard, Palette, Users, Plus, X, Edit, PlayCircle, Upload, Mic, Music, FileAudio, Monitor, Smartphone, Square, FileText, Scissors, Play, Pause } from 'lucide-react';
+import { readFileAsDataUrl } from './utils/dataUrl';
+import { downloadProject, readProjectFile, ProjectData, PROJECT_EXTENSION, collectAssetIds } from './services/projectFile';
+import { saveProject, loadProject, newProjectId, collectUnusedAssets } from './services/projectLibrary';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { getActiveProviderId, setActiveProvider } from './services/providers';
+import { isAbortError } from './services/jobScheduler';
+import { applyGenerationEvent, createGenerationProgress, GenerationEvent } from './utils/generationProgress';
+import { GenerationChecklist } from './components/GenerationChecklist';
+import { ScriptReview } from './components/ScriptReview';
+import { findMissingAssets, mergeRepairedAssets, isSceneReady, snapshotMovie, settlePendingAssets } from './utils/assetStatus';
+import { Sparkles, Video, Clapperboard, Palette, Users, Plus, X, Edit, PlayCircle, Upload, Mic, Music, FileAudio, Monitor, Smartphone, Square, FileText, Scissors, Play, Pause, FolderOpen, Save, Library, FlaskConical, AlertTriangle, Wrench, Loader2 } from 'lucide-react';
 
 const STYLES: { id: VisualStyle; label: string; desc: string }[] = [
   { id: 'flat', label: 'Flat 2D', desc: 'Minimal' },
@@ -26,6 +36,23 @@ const RATIOS: { id: AspectRatio; label: string; icon: React.ReactNode }[] = [
     { id: '21:9', label: 'Cinema', icon: <Monitor size={14} /> },
 ];
 
+// Scene counts for open-ended stories, runtimes for briefs given in seconds
+const LENGTHS: { id: string; label: string; length: MovieLength }[] = [
+    { id: 'scenes-3', label: 'Short (3 scenes)', length: { mode: 'scenes', sceneCount: 3 } },
+    { id: 'scenes-5', label: 'Medium (5 scenes)', length: { mode: 'scenes', sceneCount: 5 } },
+    { id: 'scenes-8', label: 'Long (8 scenes)', length: { mode: 'scenes', sceneCount: 8 } },
+    { id: 'scenes-12', label: 'Extended (12 scenes)', length: { mode: 'scenes', sceneCount: 12 } },
+    { id: 'scenes-20', label: 'Feature (20 scenes)', length: { mode: 'scenes', sceneCount: 20 } },
+    { id: 'scenes-30', label: 'Epic (30 scenes)', length: { mode: 'scenes', sceneCount: 30 } },
+    { id: 'scenes-40', label: 'Saga (40 scenes)', length: { mode: 'scenes', sceneCount: 40 } },
+    { id: 'duration-15', label: '15 seconds', length: { mode: 'duration', targetMs: 15000 } },
+    { id: 'duration-30', label: '30 seconds', length: { mode: 'duration', targetMs: 30000 } },
+    { id: 'duration-60', label: '1 minute', length: { mode: 'duration', targetMs: 60000 } },
+    { id: 'duration-90', label: '90 seconds', length: { mode: 'duration', targetMs: 90000 } },
+    { id: 'duration-180', label: '3 minutes', length: { mode: 'duration', targetMs: 180000 } },
+    { id: 'duration-300', label: '5 minutes', length: { mode: 'duration', targetMs: 300000 } },
+];
+
 type InputMode = 'text' | 'audio';
 
 export default function App() {
@@ -35,7 +62,10 @@ export default function App() {
   const [style, setStyle] = useState<VisualStyle>('flat');
   const [audioMode, setAudioMode] = useState<AudioMode>('gemini'); 
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  const [sceneCount, setSceneCount] = useState<SceneCount>(3);
+  const [lengthId, setLengthId] = useState(LENGTHS[0].id);
+  const [reviewScript, setReviewScript] = useState(false);
+  // The written script while it waits for review; assets are generated only once it is approved
+  const [draftMovie, setDraftMovie] = useState<Movie | null>(null);
   
   // Custom Audio State
   const [customAudioFile, setCustomAudioFile] = useState<File | null>(null);
@@ -52,14 +82,34 @@ export default function App() {
   const [characters, setCharacters] = useState<CharacterConfig[]>([]);
   const [newCharName, setNewCharName] = useState('');
   const [newCharDesc, setNewCharDesc] = useState('');
-  const [newCharImg, setNewCharImg] = useState<string | null>(null);
+  const [newCharImgs, setNewCharImgs] = useState<string[]>([]);
   const [isAddingChar, setIsAddingChar] = useState(false);
 
   const [movie, setMovie] = useState<Movie | null>(null);
-  const [voiceMap, setVoiceMap] = useState<Map<string, string>>(new Map());
+  // Repair results are merged into the latest movie, which may have been edited meanwhile
+  const movieRef = useRef(movie);
+  movieRef.current = movie;
   const [genState, setGenState] = useState<GenerationState>({ status: 'idle' });
+  const voiceMap = useMemo(() => movie ? getVoiceMap(movie) : new Map<string, string>(), [movie]);
+  const missingAssets = useMemo(() => movie ? findMissingAssets(movie) : [], [movie]);
+
+  // Project library (IndexedDB). A project gets its id before its first save is written, and
+  // saves run one at a time in order, so overlapping autosaves neither duplicate nor reorder.
+  const [currentProjectId, setCurrentProjectId] = useState<string | undefined>(undefined);
+  const projectIdRef = useRef<string | undefined>(undefined);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const repairAbortRef = useRef<AbortController | null>(null);
+  const [repairProgress, setRepairProgress] = useState<GenerationProgress | null>(null);
+  // Playing the first scenes while the rest of the movie is still generating
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+
+  const [providerId, setProviderId] = useState(getActiveProviderId());
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // Manage Preview URL to prevent "interrupted by load" errors
   useEffect(() => {
@@ -141,22 +191,90 @@ export default function App() {
     return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
   };
 
-  const handleGenerate = async () => {
-    setGenState({ status: 'generating' });
+  // Runs one generation step with progress, cancellation and streaming playback. `run` resolves to
+  // the finished movie, or to undefined when it stops at the script review. Cancelling before
+  // anything plays returns to `cancelledStatus`.
+  const runGeneration = async (
+    run: (options: GenerationOptions) => Promise<Movie | undefined>,
+    movieTitle?: string,
+    cancelledStatus: GenerationState['status'] = 'idle'
+  ) => {
+    repairAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const { signal } = controller;
+
+    // The service fills in the movie it hands out with the 'script' event. Playback starts once the
+    // first scene is ready; every later event publishes a fresh copy so the player picks up new assets.
+    let liveMovie: Movie | undefined;
+    let streaming = false;
+    const onProgress = (event: GenerationEvent) => {
+      // Late events from a cancelled run must not resurrect the progress view
+      if (signal.aborted) return;
+      if (event.type === 'script') {
+        liveMovie = event.movie;
+        if (movieTitle) liveMovie.title = movieTitle;
+      }
+      setGenState(prev => ({ ...prev, loadingMessage: undefined, progress: applyGenerationEvent(prev.progress, event) }));
+      if (!liveMovie) return;
+      if (!streaming && (liveMovie.scenes.length === 0 || isSceneReady(liveMovie.scenes[0]))) {
+        streaming = true;
+        setIsStreaming(true);
+        setProjectId(undefined);
+        setDraftMovie(null);
+        setGenState(prev => ({ ...prev, status: 'playing' }));
+      }
+      if (streaming) setMovie(snapshotMovie(liveMovie));
+    };
+    setGenState({ status: 'generating', progress: inputMode === 'text' ? createGenerationProgress() : undefined });
     if (audioPreviewRef.current) {
         audioPreviewRef.current.pause();
         setIsPreviewPlaying(false);
     }
 
     try {
-      let generatedMovie: Movie;
-      
-      if (inputMode === 'audio') {
-          if (!customAudioFile) {
-              setGenState({ status: 'error', error: 'Please select an audio file.' });
-              return;
-          }
+      const generatedMovie = await run({ signal, onProgress });
+      if (!generatedMovie) return;
+
+      const finalMovie = snapshotMovie(generatedMovie);
+      if (!streaming) setProjectId(undefined);
+      setDraftMovie(null);
+      setMovie(finalMovie);
+      // Keep whatever view the user switched to while the later scenes were generating
+      setGenState(prev => ({ status: streaming ? prev.status : 'playing' }));
+      autosave({ movie: finalMovie, characters });
+  
+    } catch (error) {
+      if (isAbortError(error)) {
+        if (streaming && liveMovie) {
+          // Keep what was generated so far; the rest shows up as failed and can be repaired
+          const partial = settlePendingAssets(liveMovie, 'Generation cancelled');
+          setMovie(partial);
+          setGenState(prev => ({ status: prev.status }));
+          autosave({ movie: partial, characters });
+        } else {
+          setGenState({ status: cancelledStatus });
+        }
+        return;
+      }
+      console.error(error);
+      setGenState({ status: 'error', error: 'Failed to generate movie. API Key valid?' });
+    } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setDraftMovie(null);
+    if (inputMode === 'audio') {
+      if (!customAudioFile) {
+          setGenState({ status: 'error', error: 'Please select an audio file.' });
+          return;
+      }
+      const movieTitle = customAudioFile.name.replace(/\.[^/.]+$/, "");
 
+      await runGeneration(async options => {
           // Process Audio (Trim if needed)
           let fileToProcess = customAudioFile;
           // Apply trim if values differ significantly from defaults
@@ -174,42 +292,84 @@ export default function App() {
           await new Promise(resolve => reader.onload = resolve);
           const base64Audio = (reader.result as string).split(',')[1];
           
-          generatedMovie = await generateMovieFromAudio(base64Audio, style, aspectRatio, characters);
-          generatedMovie.title = customAudioFile.name.replace(/\.[^/.]+$/, ""); 
-      } else {
-          // Text Mode
-          if (!prompt.trim()) {
-              setGenState({ status: 'error', error: 'Please enter a prompt.' });
-              return;
-          }
-          generatedMovie = await generateMovie(prompt, style, sceneCount, audioMode, aspectRatio, characters);
-      }
+          const processedDuration = audioDuration > 0 ? trimEnd - trimStart : undefined;
+          return generateMovieFromAudio(base64Audio, style, aspectRatio, characters, processedDuration, options);
+      }, movieTitle);
+      return;
+    }
 
-      const assignedVoices = assignVoices(generatedMovie, characters);
-      
-      setMovie(generatedMovie);
-      setVoiceMap(assignedVoices);
-      setGenState({ status: 'playing' });
-  
+    // Text Mode
+    if (!prompt.trim()) {
+        setGenState({ status: 'error', error: 'Please enter a prompt.' });
+        return;
+    }
+    const length = (LENGTHS.find(l => l.id === lengthId) || LENGTHS[0]).length;
+    if (!reviewScript) {
+      await runGeneration(options => generateMovie(prompt, style, length, audioMode, aspectRatio, characters, options));
+      return;
+    }
+    await runGeneration(async options => {
+      const script = await generateScript(prompt, style, length, audioMode, aspectRatio, characters, options);
+      setDraftMovie(script);
+      setGenState({ status: 'reviewing' });
+      return undefined;
+    });
+  };
+
+  // Images and voices for the reviewed script, with the user's edits
+  const handleApproveScript = async () => {
+    if (!draftMovie) return;
+    const script = draftMovie;
+    // Cancelling before anything plays goes back to the script
+    await runGeneration(options => produceMovie(script, options), undefined, 'reviewing');
+  };
+
+  const handleDiscardScript = () => {
+    setDraftMovie(null);
+    setGenState({ status: 'idle' });
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleRepair = async () => {
+    if (!movie) return;
+    const controller = new AbortController();
+    repairAbortRef.current = controller;
+    setRepairProgress(createGenerationProgress());
+    try {
+      const repaired = await repairMovie(movie, {
+        signal: controller.signal,
+        onProgress: event => setRepairProgress(prev => prev && applyGenerationEvent(prev, event))
+      });
+      if (movieRef.current) updateMovie(mergeRepairedAssets(movieRef.current, repaired));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      setGenState({ status: 'error', error: 'Failed to generate movie. API Key valid?' });
+      alert('Repair failed.');
+    } finally {
+      if (repairAbortRef.current === controller) {
+        repairAbortRef.current = null;
+        setRepairProgress(null);
+      }
     }
   };
 
+  const handleCancelRepair = () => {
+    repairAbortRef.current?.abort();
+  };
+
   const handleFinish = () => {
     setGenState({ status: 'finished' });
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-              setNewCharImg(reader.result as string);
-          };
-          reader.readAsDataURL(file);
-      }
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      e.target.value = '';
+      if (files.length === 0) return;
+      const images = await Promise.all(files.map(readFileAsDataUrl));
+      setNewCharImgs(prev => [...prev, ...images]);
   };
 
   const addCharacter = () => {
@@ -218,11 +378,11 @@ export default function App() {
         id: Date.now().toString(),
         name: newCharName,
         description: newCharDesc,
-        referenceImageData: newCharImg || undefined
+        referenceImages: newCharImgs
       }]);
       setNewCharName('');
       setNewCharDesc('');
-      setNewCharImg(null);
+      setNewCharImgs([]);
       setIsAddingChar(false);
     }
   };
@@ -231,8 +391,111 @@ export default function App() {
     setCharacters(characters.filter(c => c.id !== id));
   };
 
+  const setProjectId = (id: string | undefined) => {
+    projectIdRef.current = id;
+    setCurrentProjectId(id);
+  };
+
+  const autosave = (data: ProjectData): Promise<void> => {
+    const id = projectIdRef.current || newProjectId();
+    if (id !== projectIdRef.current) setProjectId(id);
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        await saveProject(data, id);
+      } catch (e) {
+        console.error("Autosave failed", e);
+      }
+    });
+    return saveQueueRef.current;
+  };
+
+  // Editor changes arrive per keystroke, so coalesce them into one save
+  const scheduleAutosave = (data: ProjectData) => {
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      autosave(data);
+    }, 800);
+  };
+
+  const cancelPendingAutosave = () => {
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = null;
+  };
+
   const updateMovie = (updatedMovie: Movie) => {
     setMovie(updatedMovie);
+    scheduleAutosave({ movie: updatedMovie, characters });
+  };
+
+  const openProject = (data: ProjectData) => {
+    cancelPendingAutosave();
+    repairAbortRef.current?.abort();
+    assignVoices(data.movie);
+    setInputMode(data.movie.audioMode === 'custom' ? 'audio' : 'text');
+    if (data.movie.audioMode !== 'custom') setAudioMode(data.movie.audioMode);
+    setStyle(data.movie.style);
+    setAspectRatio(data.movie.aspectRatio);
+    setCharacters(data.characters);
+    setMovie(data.movie);
+    setGenState({ status: 'playing' });
+  };
+
+  const handleSaveProject = async () => {
+    if (!movie) return;
+    try {
+      await downloadProject({ movie, characters });
+    } catch (error) {
+      console.error(error);
+      alert('Failed to save the project.');
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const data = await readProjectFile(file);
+      setProjectId(undefined);
+      openProject(data);
+      autosave(data);
+    } catch (error) {
+      console.error(error);
+      setGenState({ status: 'error', error: error instanceof Error ? error.message : 'Failed to open project.' });
+    }
+  };
+
+  const handleOpenFromLibrary = async (id: string) => {
+    try {
+      const data = await loadProject(id);
+      setProjectId(id);
+      openProject(data);
+      setIsLibraryOpen(false);
+    } catch (error) {
+      console.error(error);
+      setIsLibraryOpen(false);
+      setGenState({ status: 'error', error: error instanceof Error ? error.message : 'Failed to open project.' });
+    }
+  };
+
+  const toggleMockProvider = () => {
+    const next = providerId === 'mock' ? 'gemini' : 'mock';
+    setActiveProvider(next, true);
+    setProviderId(next);
+  };
+
+  const handleLibraryDeleted = (id: string) => {
+    if (projectIdRef.current === id) setProjectId(undefined);
+    // A running generation or repair stores assets before the movie refers to them; the next
+    // delete cleans up instead
+    if (generationAbortRef.current || repairAbortRef.current) return;
+    const inUse = movieRef.current ? collectAssetIds(movieRef.current) : [];
+    saveQueueRef.current.then(() => collectUnusedAssets(inUse)).catch(e => console.error("Asset cleanup failed", e));
+  };
+
+  const handleLibraryRenamed = (id: string, title: string) => {
+    if (projectIdRef.current === id && movie) setMovie({ ...movie, title });
   };
 
   const isGenerateDisabled = () => {
@@ -252,22 +515,70 @@ export default function App() {
             </div>
             <h1 className="text-2xl font-bold tracking-tight">AI Cinema</h1>
           </div>
-          {movie && genState.status !== 'generating' && (
-             <button 
-                onClick={() => { setMovie(null); setGenState({ status: 'idle' }); setPrompt(''); setCharacters([]); setCustomAudioFile(null); setAudioDuration(0); }}
-                className="text-sm text-slate-400 hover:text-white transition"
-             >
-                New Project
-             </button>
+          {genState.status !== 'generating' && genState.status !== 'reviewing' && !isStreaming && (
+             <div className="flex items-center gap-4">
+                <button
+                   onClick={toggleMockProvider}
+                   className={`text-xs px-2 py-1 rounded-full border transition flex items-center gap-1 ${providerId === 'mock' ? 'border-amber-400/60 text-amber-300 bg-amber-500/10' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                   title="Use the offline mock AI backend (no network, no quota)"
+                >
+                   <FlaskConical size={12} /> {providerId === 'mock' ? 'Mock AI' : 'Gemini'}
+                </button>
+                <input
+                   type="file"
+                   ref={projectInputRef}
+                   className="hidden"
+                   accept={`${PROJECT_EXTENSION},application/json`}
+                   onChange={handleOpenProject}
+                />
+                <button
+                   onClick={() => setIsLibraryOpen(true)}
+                   className="text-sm text-slate-400 hover:text-white transition flex items-center gap-1"
+                >
+                   <Library size={14} /> Library
+                </button>
+                <button
+                   onClick={() => projectInputRef.current?.click()}
+                   className="text-sm text-slate-400 hover:text-white transition flex items-center gap-1"
+                >
+                   <FolderOpen size={14} /> Open
+                </button>
+                {movie && (
+                   <button
+                      onClick={handleSaveProject}
+                      className="text-sm text-slate-400 hover:text-white transition flex items-center gap-1"
+                   >
+                      <Save size={14} /> Save
+                   </button>
+                )}
+                {movie && (
+                   <button 
+                      onClick={() => { cancelPendingAutosave(); setMovie(null); setProjectId(undefined); setGenState({ status: 'idle' }); setPrompt(''); setCharacters([]); setCustomAudioFile(null); setAudioDuration(0); }}
+                      className="text-sm text-slate-400 hover:text-white transition"
+                   >
+                      New Project
+                   </button>
+                )}
+             </div>
           )}
         </div>
       </header>
 
+      {isLibraryOpen && (
+        <ProjectLibrary
+          currentProjectId={currentProjectId}
+          onOpen={handleOpenFromLibrary}
+          onDeleted={handleLibraryDeleted}
+          onRenamed={handleLibraryRenamed}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 container mx-auto px-4 py-8 flex flex-col items-center">
         
         {/* INPUT CONFIGURATION STATE */}
-        {!movie && genState.status !== 'generating' && (
+        {!movie && genState.status !== 'generating' && genState.status !== 'reviewing' && (
           <div className="w-full max-w-3xl mt-6 animate-fade-in space-y-8 pb-20">
             
             {/* Mode Switcher */}
@@ -461,13 +772,16 @@ export default function App() {
                         <div className="bg-slate-900 p-1 rounded-lg inline-flex border border-slate-700 items-center px-3 gap-2">
                             <span className="text-xs text-slate-400 uppercase font-bold">Length:</span>
                             <select 
-                                value={sceneCount} 
-                                onChange={(e) => setSceneCount(Number(e.target.value) as SceneCount)}
+                                value={lengthId} 
+                                onChange={(e) => setLengthId(e.target.value)}
                                 className="bg-transparent text-white font-bold outline-none text-sm cursor-pointer"
                             >
-                                <option value={3}>Short (3 scenes)</option>
-                                <option value={5}>Medium (5 scenes)</option>
-                                <option value={8}>Long (8 scenes)</option>
+                                <optgroup label="Scenes">
+                                    {LENGTHS.filter(l => l.length.mode === 'scenes').map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                                </optgroup>
+                                <optgroup label="Target runtime">
+                                    {LENGTHS.filter(l => l.length.mode === 'duration').map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                                </optgroup>
                             </select>
                         </div>
                      )}
@@ -483,6 +797,14 @@ export default function App() {
                             </button>
                         </div>
                      )}
+
+                     {/* Text Mode Specifics: stop after the script so it can be checked before assets are paid for */}
+                     {inputMode === 'text' && (
+                        <label className="bg-slate-900 p-1 rounded-lg inline-flex border border-slate-700 items-center px-3 gap-2 cursor-pointer" title="Edit the script before images and voices are generated">
+                            <input type="checkbox" checked={reviewScript} onChange={(e) => setReviewScript(e.target.checked)} className="accent-indigo-500" />
+                            <span className="text-xs text-slate-300 font-bold">Review script first</span>
+                        </label>
+                     )}
                 </div>
 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -524,8 +846,13 @@ export default function App() {
                   {characters.map((char) => (
                     <div key={char.id} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
                       <div className="flex items-center gap-3">
-                        {char.referenceImageData ? (
-                            <img src={char.referenceImageData} className="w-10 h-10 rounded-full object-cover border border-slate-600" alt={char.name} />
+                        {char.referenceImages?.length ? (
+                            <div className="relative">
+                                <img src={char.referenceImages[0]} className="w-10 h-10 rounded-full object-cover border border-slate-600" alt={char.name} />
+                                {char.referenceImages.length > 1 && (
+                                    <span className="absolute -bottom-1 -right-1 bg-indigo-600 text-white text-[10px] font-bold rounded-full px-1.5">+{char.referenceImages.length - 1}</span>
+                                )}
+                            </div>
                         ) : (
                             <div className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center text-slate-500">
                                 <Users size={16} />
@@ -561,16 +888,28 @@ export default function App() {
                                 className="flex items-center gap-2 px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs text-slate-300 border border-slate-600 transition"
                            >
                                <Upload size={14} /> 
-                               {newCharImg ? 'Photo Loaded' : 'Upload Photo'}
+                               {newCharImgs.length > 0 ? 'Add Photo' : 'Upload Photos'}
                            </button>
                            <input 
                                 type="file" 
                                 ref={fileInputRef} 
                                 className="hidden" 
                                 accept="image/*"
+                                multiple
                                 onChange={handleImageUpload}
                            />
-                           {newCharImg && <img src={newCharImg} className="w-8 h-8 rounded object-cover" alt="Preview" />}
+                           {newCharImgs.map((img, i) => (
+                               <div key={i} className="relative group">
+                                   <img src={img} className="w-8 h-8 rounded object-cover" alt={`Reference ${i + 1}`} />
+                                   <button
+                                        onClick={() => setNewCharImgs(prev => prev.filter((_, j) => j !== i))}
+                                        className="absolute -top-1.5 -right-1.5 hidden group-hover:flex bg-slate-900 border border-slate-600 rounded-full p-0.5 text-slate-300 hover:text-red-400"
+                                        title="Remove photo"
+                                   >
+                                       <X size={10} />
+                                   </button>
+                               </div>
+                           ))}
                        </div>
 
                        <div className="flex justify-end gap-2 pt-2">
@@ -593,40 +932,53 @@ export default function App() {
 
         {/* LOADING STATE */}
         {genState.status === 'generating' && (
-             <div className="flex flex-col items-center justify-center mt-20 space-y-6 animate-pulse">
-                <div className="relative">
-                    <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 rounded-full"></div>
-                    <Video size={64} className="text-indigo-400 relative z-10" />
-                </div>
-                <h3 className="text-2xl font-bold text-white">
-                    {inputMode === 'text' ? 'Writing & Filming...' : 'Processing...'}
-                </h3>
-                <div className="flex flex-col gap-2 text-center text-slate-400 max-w-sm">
-                   {genState.loadingMessage ? (
-                       <p className="text-indigo-300">{genState.loadingMessage}</p>
-                   ) : (
-                        inputMode === 'audio' ? (
-                            <>
-                                <p>Analyzing audio...</p>
-                                <p>Visualizing sounds...</p>
-                            </>
-                        ) : (
-                            <>
-                                <p>Generating script...</p>
-                                <p>Recording voices...</p>
-                            </>
-                        )
+             <div className="flex flex-col items-center justify-center mt-20 space-y-8">
+                <div className="flex flex-col items-center justify-center space-y-6 animate-pulse">
+                   <div className="relative">
+                       <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 rounded-full"></div>
+                       <Video size={64} className="text-indigo-400 relative z-10" />
+                   </div>
+                   <h3 className="text-2xl font-bold text-white">
+                       {inputMode === 'text' ? 'Writing & Filming...' : 'Processing...'}
+                   </h3>
+                   {!genState.progress && (
+                   <div className="flex flex-col gap-2 text-center text-slate-400 max-w-sm">
+                      {genState.loadingMessage ? (
+                          <p className="text-indigo-300">{genState.loadingMessage}</p>
+                      ) : (
+                           inputMode === 'audio' ? (
+                               <>
+                                   <p>Analyzing audio...</p>
+                                   <p>Visualizing sounds...</p>
+                               </>
+                           ) : (
+                               <>
+                                   <p>Generating script...</p>
+                                   <p>Recording voices...</p>
+                               </>
+                           )
+                      )}
+                   </div>
                    )}
                 </div>
+                {genState.progress && <GenerationChecklist progress={genState.progress} />}
+                <Button variant="secondary" onClick={handleCancelGeneration}>
+                    <X size={16} /> Cancel
+                </Button>
              </div>
         )}
 
+        {/* SCRIPT REVIEW STATE */}
+        {genState.status === 'reviewing' && draftMovie && (
+            <ScriptReview movie={draftMovie} onChange={setDraftMovie} onApprove={handleApproveScript} onDiscard={handleDiscardScript} />
+        )}
+
         {/* ERROR STATE */}
         {genState.status === 'error' && (
             <div className="text-center mt-20 bg-red-500/10 border border-red-500/20 p-8 rounded-2xl max-w-lg">
                 <h3 className="text-xl font-bold text-red-400 mb-2">Error</h3>
                 <p className="text-slate-300 mb-6">{genState.error}</p>
-                <Button variant="secondary" onClick={() => setGenState({ status: 'idle' })}>
+                <Button variant="secondary" onClick={() => setGenState({ status: draftMovie ? 'reviewing' : 'idle' })}>
                     Back
                 </Button>
             </div>
@@ -644,7 +996,7 @@ export default function App() {
                     >
                        <PlayCircle size={18} /> Watch
                     </button>
-                    {inputMode === 'text' && (
+                    {!isStreaming && (
                         <button 
                           onClick={() => setGenState(prev => ({ ...prev, status: 'editing' }))}
                           className={`flex items-center gap-2 px-4 py-2 rounded-md transition ${genState.status === 'editing' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
@@ -654,9 +1006,47 @@ export default function App() {
                     )}
                  </div>
 
+                 {/* Later scenes still generating */}
+                 {isStreaming && genState.progress && (
+                    <div className="w-full max-w-4xl mb-4 flex items-center gap-3 bg-indigo-500/10 border border-indigo-500/30 rounded-lg px-4 py-2 text-sm">
+                        <Loader2 size={16} className="animate-spin text-indigo-400 shrink-0" />
+                        <span className="flex-1 text-indigo-200">
+                            Generating the remaining scenes... Images {genState.progress.images.done + genState.progress.images.failed}/{genState.progress.images.total}
+                            {genState.progress.voices.total > 0 && ` · Voices ${genState.progress.voices.done + genState.progress.voices.failed}/${genState.progress.voices.total}`}
+                        </span>
+                        <button onClick={handleCancelGeneration} className="text-xs font-bold text-slate-300 hover:text-white">Cancel</button>
+                    </div>
+                 )}
+
+                 {/* Missing / failed assets */}
+                 {!isStreaming && (missingAssets.length > 0 || repairProgress) && (
+                    <div className="w-full max-w-4xl mb-4 flex items-center gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg px-4 py-2 text-sm">
+                        {repairProgress ? (
+                            <>
+                                <Loader2 size={16} className="animate-spin text-amber-400 shrink-0" />
+                                <span className="flex-1 text-amber-200">
+                                    Repairing... {repairProgress.images.done + repairProgress.images.failed + repairProgress.voices.done + repairProgress.voices.failed}/{repairProgress.images.total + repairProgress.voices.total}
+                                </span>
+                                <button onClick={handleCancelRepair} className="text-xs font-bold text-slate-300 hover:text-white">Cancel</button>
+                            </>
+                        ) : (
+                            <>
+                                <AlertTriangle size={16} className="text-amber-400 shrink-0" />
+                                <span className="flex-1 text-amber-200">
+                                    {missingAssets.filter(a => a.kind === 'image').length} images and {missingAssets.filter(a => a.kind !== 'image').length} voice clips are missing or failed.
+                                </span>
+                                <button onClick={handleRepair} className="flex items-center gap-1 text-xs font-bold text-amber-300 hover:text-amber-200">
+                                    <Wrench size={14} /> Repair movie
+                                </button>
+                            </>
+                        )}
+                    </div>
+                 )}
+
                  {genState.status === 'editing' ? (
                    <SceneEditor 
                       movie={movie} 
+                      voices={voiceMap}
                       onUpdateMovie={updateMovie} 
                       onClose={() => setGenState(prev => ({ ...prev, status: 'playing' }))} 
                    />
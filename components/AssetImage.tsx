@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { AssetId } from '../types';
+import { getAssetUrl, peekAssetUrl } from '../services/assetStore';
+
+// Object URL for a stored asset; undefined until it has been loaded from IndexedDB
+export const useAssetUrl = (id?: AssetId): string | undefined => {
+  const [url, setUrl] = useState(() => peekAssetUrl(id));
+
+  useEffect(() => {
+    const cached = peekAssetUrl(id);
+    setUrl(cached);
+    if (cached || !id) return;
+    let cancelled = false;
+    getAssetUrl(id).then(loaded => { if (!cancelled) setUrl(loaded); });
+    return () => { cancelled = true; };
+  }, [id]);
+
+  return url;
+};
+
+type AssetImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { assetId?: AssetId };
+
+export const AssetImage: React.FC<AssetImageProps> = ({ assetId, ...props }) => {
+  const url = useAssetUrl(assetId);
+  return url ? <img src={url} {...props} /> : null;
+};
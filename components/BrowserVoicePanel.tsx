@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Movie, BrowserVoiceSettings } from '../types';
+import { Play, StopCircle, RotateCcw } from 'lucide-react';
+import { NARRATOR_ID } from '../utils/cast';
+import { loadBrowserVoices, getMovieLanguage, voicesForLanguage, getBrowserVoice, createUtterance, getVoiceSampleText } from '../utils/speech';
+
+interface BrowserVoicePanelProps {
+  movie: Movie;
+  onChange: (movie: Movie) => void;
+}
+
+const LANGUAGES: { tag: string; label: string }[] = [
+  { tag: 'ru-RU', label: 'Русский' },
+  { tag: 'en-US', label: 'English (US)' },
+  { tag: 'en-GB', label: 'English (UK)' },
+  { tag: 'uk-UA', label: 'Українська' },
+  { tag: 'de-DE', label: 'Deutsch' },
+  { tag: 'fr-FR', label: 'Français' },
+  { tag: 'es-ES', label: 'Español' },
+  { tag: 'it-IT', label: 'Italiano' },
+  { tag: 'pt-BR', label: 'Português' },
+  { tag: 'ja-JP', label: '日本語' },
+  { tag: 'zh-CN', label: '中文' }
+];
+
+// Voice, rate and pitch per speaker for the free 'browser' audio mode (Web Speech API)
+export const BrowserVoicePanel: React.FC<BrowserVoicePanelProps> = ({ movie, onChange }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => window.speechSynthesis.getVoices());
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBrowserVoices().then(list => { if (!cancelled) setVoices(list); });
+    return () => {
+      cancelled = true;
+      window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  const language = getMovieLanguage(movie);
+  const matching = voicesForLanguage(voices, language);
+  const others = voices.filter(v => !matching.includes(v));
+
+  const setSettings = (speakerId: string, settings: BrowserVoiceSettings | undefined) => {
+    onChange(speakerId === NARRATOR_ID
+      ? { ...movie, narratorBrowserVoice: settings }
+      : { ...movie, cast: movie.cast.map(c => c.id === speakerId ? { ...c, browserVoice: settings } : c) });
+  };
+
+  const patchSettings = (speakerId: string, patch: Partial<BrowserVoiceSettings>) =>
+    setSettings(speakerId, { ...getBrowserVoice(movie, speakerId, voices), ...patch });
+
+  const handlePreview = (speakerId: string) => {
+    window.speechSynthesis.cancel();
+    if (previewingId === speakerId) {
+      setPreviewingId(null);
+      return;
+    }
+    const utterance = createUtterance(movie, speakerId, getVoiceSampleText(movie, speakerId).slice(0, 200));
+    utterance.onend = () => setPreviewingId(current => current === speakerId ? null : current);
+    utterance.onerror = utterance.onend;
+    setPreviewingId(speakerId);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const speakers = [
+    { id: NARRATOR_ID, name: 'Рассказчик', color: '#94a3b8', custom: !!movie.narratorBrowserVoice },
+    ...movie.cast.map(c => ({ id: c.id, name: c.name, color: c.color, custom: !!c.browserVoice }))
+  ];
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-2">
+      <div className="flex items-center gap-3 mb-1">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Язык</label>
+        <select
+          value={language}
+          onChange={(e) => onChange({ ...movie, language: e.target.value })}
+          className="bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-slate-200"
+        >
+          {!LANGUAGES.some(l => l.tag === language) && <option value={language}>{language}</option>}
+          {LANGUAGES.map(l => <option key={l.tag} value={l.tag}>{l.label}</option>)}
+        </select>
+        {voices.length > 0 && matching.length === 0 && (
+          <span className="text-xs text-amber-400">В браузере нет голосов для этого языка</span>
+        )}
+      </div>
+
+      {speakers.map(speaker => {
+        const settings = getBrowserVoice(movie, speaker.id, voices);
+        const isPlaying = previewingId === speaker.id;
+        return (
+          <div key={speaker.id} className="bg-slate-900/50 px-3 py-2 rounded-lg border border-slate-700 space-y-2">
+            <div className="flex items-center gap-3">
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: speaker.color }} />
+              <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-200">{speaker.name}</span>
+              <select
+                value={settings.voiceURI || ''}
+                onChange={(e) => patchSettings(speaker.id, { voiceURI: e.target.value || undefined })}
+                className="w-56 shrink-0 bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-slate-200"
+              >
+                <option value="">По умолчанию</option>
+                {matching.length > 0 && (
+                  <optgroup label={language}>
+                    {matching.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                  </optgroup>
+                )}
+                {others.length > 0 && (
+                  <optgroup label="Другие языки">
+                    {others.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <button
+                onClick={() => handlePreview(speaker.id)}
+                className="p-1.5 rounded-full hover:bg-indigo-500/20 text-indigo-400 transition shrink-0"
+                title="Прослушать"
+              >
+                {isPlaying ? <StopCircle size={16} /> : <Play size={16} />}
+              </button>
+              <button
+                onClick={() => setSettings(speaker.id, undefined)}
+                disabled={!speaker.custom}
+                className="p-1.5 text-slate-500 hover:text-white shrink-0 disabled:opacity-30"
+                title="Сбросить на автоматический выбор"
+              >
+                <RotateCcw size={14} />
+              </button>
+            </div>
+            <div className="flex items-center gap-4 pl-5 text-xs text-slate-400">
+              <label className="flex items-center gap-2 flex-1">
+                Скорость
+                <input type="range" min={0.5} max={2} step={0.1} value={settings.rate} onChange={(e) => patchSettings(speaker.id, { rate: Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+                <span className="w-8 text-right font-mono">{settings.rate.toFixed(1)}</span>
+              </label>
+              <label className="flex items-center gap-2 flex-1">
+                Тон
+                <input type="range" min={0} max={2} step={0.1} value={settings.pitch} onChange={(e) => patchSettings(speaker.id, { pitch: Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+                <span className="w-8 text-right font-mono">{settings.pitch.toFixed(1)}</span>
+              </label>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useRef } from 'react';
+import { Movie, CastMember } from '../types';
+import { Trash2, Plus, Upload, X } from 'lucide-react';
+import { assignVoices } from '../services/geminiService';
+import { nextCastColor } from '../utils/cast';
+import { readFileAsDataUrl } from '../utils/dataUrl';
+
+interface CastPanelProps {
+  movie: Movie;
+  onChange: (movie: Movie) => void;
+}
+
+const inputClass = "w-full bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-white";
+
+export const CastPanel: React.FC<CastPanelProps> = ({ movie, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<string | null>(null);
+
+  const speaksSomewhere = (id: string) => movie.scenes.some(s => s.script.some(l => l.characterId === id));
+
+  const updateMember = (id: string, patch: Partial<CastMember>) => {
+    onChange({ ...movie, cast: movie.cast.map(c => c.id === id ? { ...c, ...patch } : c) });
+  };
+
+  const addMember = () => {
+    const member: CastMember = {
+      id: `char-${Date.now()}`,
+      name: 'Новый персонаж',
+      description: '',
+      referenceImages: [],
+      color: nextCastColor(movie.cast)
+    };
+    const next = { ...movie, cast: [...movie.cast, member] };
+    assignVoices(next);
+    onChange(next);
+  };
+
+  const removeMember = (id: string) => {
+    onChange({
+      ...movie,
+      cast: movie.cast.filter(c => c.id !== id),
+      scenes: movie.scenes.map(s => ({ ...s, characterIds: s.characterIds.filter(cid => cid !== id) }))
+    });
+  };
+
+  const startUpload = (id: string) => {
+    uploadTargetRef.current = id;
+    fileInputRef.current?.click();
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const member = movie.cast.find(c => c.id === uploadTargetRef.current);
+    if (!member || files.length === 0) return;
+    const images = await Promise.all(files.map(readFileAsDataUrl));
+    updateMember(member.id, { referenceImages: [...(member.referenceImages || []), ...images] });
+  };
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-3">
+      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple onChange={handleUpload} />
+
+      {movie.cast.length === 0 && <p className="text-sm text-slate-500 italic">В фильме пока нет персонажей.</p>}
+
+      {movie.cast.map(member => {
+        const canRemove = !speaksSomewhere(member.id);
+        return (
+          <div key={member.id} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-2" style={{ borderLeftColor: member.color, borderLeftWidth: 4 }}>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={member.color}
+                onChange={(e) => updateMember(member.id, { color: e.target.value })}
+                className="w-8 h-8 shrink-0 bg-transparent rounded cursor-pointer"
+                title="Цвет реплик"
+              />
+              <input value={member.name} onChange={(e) => updateMember(member.id, { name: e.target.value })} className={`${inputClass} font-bold`} placeholder="Имя" />
+              <button
+                onClick={() => removeMember(member.id)}
+                disabled={!canRemove}
+                className="p-1.5 text-slate-500 hover:text-red-400 shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={canRemove ? "Удалить персонажа" : "У персонажа есть реплики"}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <textarea
+              value={member.description}
+              onChange={(e) => updateMember(member.id, { description: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-y`}
+              placeholder="Внешность (используется в промптах изображений)"
+            />
+            <div className="flex items-center gap-2 flex-wrap">
+              {(member.referenceImages || []).map((img, i) => (
+                <div key={i} className="relative group">
+                  <img src={img} className="w-10 h-10 rounded object-cover border border-slate-600" alt={`${member.name} ${i + 1}`} />
+                  <button
+                    onClick={() => updateMember(member.id, { referenceImages: member.referenceImages!.filter((_, j) => j !== i) })}
+                    className="absolute -top-1.5 -right-1.5 hidden group-hover:flex bg-slate-900 border border-slate-600 rounded-full p-0.5 text-slate-300 hover:text-red-400"
+                    title="Удалить фото"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => startUpload(member.id)}
+                className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded text-[11px] text-slate-300 border border-slate-600"
+              >
+                <Upload size={12} /> Референс
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button onClick={addMember} className="text-xs flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-bold">
+        <Plus size={14} /> Добавить персонажа
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { GenerationProgress, GenerationCounter } from '../types';
+import { CheckCircle2, Loader2, AlertTriangle, Image as ImageIcon, Mic, FileText } from 'lucide-react';
+import { AssetImage } from './AssetImage';
+
+interface GenerationChecklistProps {
+  progress: GenerationProgress;
+}
+
+const ProgressBar: React.FC<{ label: string; counter: GenerationCounter; icon: React.ReactNode }> = ({ label, counter, icon }) => {
+  const finished = counter.done + counter.failed;
+  const percent = counter.total > 0 ? (finished / counter.total) * 100 : 100;
+  return (
+    <div className="flex-1 min-w-[140px]">
+      <div className="flex items-center justify-between text-xs text-slate-400 mb-1">
+        <span className="flex items-center gap-1">{icon} {label}</span>
+        <span className="font-mono">
+          {finished}/{counter.total}
+          {counter.failed > 0 && <span className="text-amber-400 ml-1">({counter.failed} failed)</span>}
+        </span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export const GenerationChecklist: React.FC<GenerationChecklistProps> = ({ progress }) => {
+  const scriptDone = progress.phase !== 'script';
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-900/60 border border-slate-800 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        {scriptDone ? <CheckCircle2 size={16} className="text-emerald-400" /> : <Loader2 size={16} className="animate-spin text-indigo-400" />}
+        <span className={scriptDone ? 'text-slate-300' : 'text-white font-bold'}>
+          {scriptDone ? `Script ready: ${progress.scenes.length} scenes` : progress.script.total > 0 ? 'Writing scenes...' : 'Outlining the story...'}
+        </span>
+      </div>
+
+      {!scriptDone && progress.script.total > 0 && (
+        <ProgressBar label="Scenes" counter={progress.script} icon={<FileText size={12} />} />
+      )}
+
+      {scriptDone && (
+        <>
+          <div className="flex flex-wrap gap-4">
+            <ProgressBar label="Images" counter={progress.images} icon={<ImageIcon size={12} />} />
+            {progress.voices.total > 0 && <ProgressBar label="Voice lines" counter={progress.voices} icon={<Mic size={12} />} />}
+          </div>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+            {progress.scenes.map((scene, index) => {
+              const voicesFinished = scene.voices.done + scene.voices.failed;
+              const complete = scene.image !== 'pending' && voicesFinished >= scene.voices.total;
+              const hasFailures = scene.image === 'failed' || scene.voices.failed > 0;
+              return (
+                <div key={scene.sceneId || index} className="flex items-center gap-3 bg-slate-800/60 rounded-lg p-2">
+                  <div className="w-16 h-10 rounded overflow-hidden bg-slate-900 shrink-0 flex items-center justify-center border border-slate-700">
+                    {scene.imageId ? (
+                      <AssetImage assetId={scene.imageId} className="w-full h-full object-cover animate-fade-in" alt={`Scene ${index + 1}`} />
+                    ) : scene.image === 'failed' ? (
+                      <AlertTriangle size={14} className="text-amber-400" />
+                    ) : (
+                      <Loader2 size={14} className="animate-spin text-slate-500" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 text-left">
+                    <p className="text-xs text-slate-300 truncate">{index + 1}. {scene.description}</p>
+                    {scene.voices.total > 0 && (
+                      <p className="text-[11px] text-slate-500">
+                        Voices {voicesFinished}/{scene.voices.total}
+                        {scene.voices.failed > 0 && <span className="text-amber-400"> · {scene.voices.failed} failed</span>}
+                      </p>
+                    )}
+                  </div>
+                  {complete && (hasFailures
+                    ? <AlertTriangle size={16} className="text-amber-400 shrink-0" />
+                    : <CheckCircle2 size={16} className="text-emerald-400 shrink-0" />)}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { Movie, DialogueLine, AspectRatio } from '../types';
-import { Play, Pause, RotateCcw, Volume2, VolumeX, Maximize, Minimize, Download } from 'lucide-react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import { Movie, AspectRatio } from '../types';
+import { Play, Pause, RotateCcw, Volume2, VolumeX, Maximize, Minimize, Download, X, Music, Loader2, Captions, SkipBack, SkipForward, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from './Button';
+import { renderMovieToVideo } from '../utils/videoRenderer';
+import { exportSoundtrackWav } from '../utils/soundtrack';
+import { exportSubtitles, SubtitleFormat } from '../utils/subtitles';
+import { downloadBlob, toFileName } from '../utils/download';
+import { buildTimeline, sceneIndexAt, speechEventAt, sceneStarts, lineStarts, nextStart, previousStart, formatTimecode } from '../utils/timeline';
+import { findCastMember, NARRATOR_ID } from '../utils/cast';
+import { isSceneReady } from '../utils/assetStatus';
+import { createUtterance, loadBrowserVoices } from '../utils/speech';
+import { TimelineScrubber } from './TimelineScrubber';
+import { useAssetUrl } from './AssetImage';
+import { getAudioBuffer, peekAudioBuffer } from '../services/assetStore';
 
 interface MovieScreenProps {
   movie: Movie;
@@ -9,36 +20,6 @@ interface MovieScreenProps {
   onFinish: () => void;
 }
 
-// Helpers for PCM Decoding
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
 const getAspectRatioStyle = (ratio: AspectRatio): React.CSSProperties => {
     switch (ratio) {
         case '16:9': return { aspectRatio: '16/9' };
@@ -51,11 +32,9 @@ const getAspectRatioStyle = (ratio: AspectRatio): React.CSSProperties => {
 };
 
 export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinish }) => {
-  const [sceneIndex, setSceneIndex] = useState(0);
-  const [scriptIndex, setScriptIndex] = useState(-2); 
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentLine, setCurrentLine] = useState<DialogueLine | null>(null);
-  const [isNarrating, setIsNarrating] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [seekToken, setSeekToken] = useState(0);
   const [audioEnabled, setAudioEnabled] = useState(true);
   
   // Custom Audio State
@@ -64,267 +43,290 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
   // Fullscreen state
   const [isFullscreen, setIsFullscreen] = useState(false);
   
-  // Rendering/Recording state
+  // Offscreen rendering state
   const [isRendering, setIsRendering] = useState(false);
+  const [renderProgress, setRenderProgress] = useState(0);
+  const [isRenderPaused, setIsRenderPaused] = useState(false);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [isSubtitleMenuOpen, setIsSubtitleMenuOpen] = useState(false);
   
   const containerRef = useRef<HTMLDivElement>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
   const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const audioCache = useRef<Map<string, AudioBuffer>>(new Map());
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-
+  const [isBuffering, setIsBuffering] = useState(false);
+  const bufferingRef = useRef(false);
+
+  // Playback clock: position = anchorPos + (now - anchorAt). positionRef mirrors state for callbacks.
+  const clockRef = useRef({ anchorPos: 0, anchorAt: 0 });
+  const positionRef = useRef(0);
+  const speakingRef = useRef(false);
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  // Everything time-related is derived from the timeline
+  const timeline = useMemo(() => buildTimeline(movie), [movie]);
+  // The clock reads these through refs: assets of later scenes keep arriving during playback,
+  // and each arrival rebuilds the timeline without moving anything before the playhead
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+  const sceneIndex = sceneIndexAt(timeline, positionMs);
   const scene = movie.scenes[sceneIndex];
+  const activeEvent = speechEventAt(timeline, positionMs);
+  // The narration under the playhead; a dialogue line replaces it while the line is active
+  const subtitle = activeEvent?.kind === 'narration' ? activeEvent.text : '';
+  const currentLine = activeEvent?.kind === 'dialogue' && activeEvent.lineIndex !== undefined ? scene.script[activeEvent.lineIndex] : null;
+  const currentSpeaker = currentLine ? findCastMember(movie, currentLine.characterId) : undefined;
+  const sceneImageUrl = useAssetUrl(scene.imageId);
+  const customAudioUrl = useAssetUrl(movie.customAudioId);
+
+  const stopSpeech = () => {
+      if (activeSourceRef.current) {
+          activeSourceRef.current.onended = null;
+          try { activeSourceRef.current.stop(); } catch (e) {}
+          activeSourceRef.current = null;
+      }
+      window.speechSynthesis.cancel();
+      speakingRef.current = false;
+  };
+
+  const updatePosition = (ms: number) => {
+      positionRef.current = ms;
+      setPositionMs(ms);
+  };
+
+  // Chrome fills the voice list asynchronously; ask early so the first line already gets its voice
+  useEffect(() => {
+    if (movie.audioMode === 'browser') loadBrowserVoices();
+  }, [movie.audioMode]);
 
   // --- AUDIO DECODING ---
-  // We now decode all pre-generated audio on mount for smooth playback
   useEffect(() => {
-    const initAudio = async () => {
-        if (movie.audioMode !== 'gemini') return;
-        
+    if (movie.audioMode === 'gemini') {
         const Ctx = window.AudioContext || (window as any).webkitAudioContext;
         audioCtxRef.current = new Ctx({ sampleRate: 24000 });
-
-        // Decode everything into cache
-        for(let sIdx=0; sIdx<movie.scenes.length; sIdx++) {
-            const s = movie.scenes[sIdx];
-            // Narration
-            if (s.narrationAudioData) {
-                try {
-                    const buf = await decodeAudioData(decode(s.narrationAudioData), audioCtxRef.current, 24000, 1);
-                    audioCache.current.set(`${s.id}-narrator`, buf);
-                } catch(e) {}
-            }
-            // Script
-            for(let lIdx=0; lIdx<s.script.length; lIdx++) {
-                const line = s.script[lIdx];
-                if (line.audioData) {
-                    try {
-                        const buf = await decodeAudioData(decode(line.audioData), audioCtxRef.current, 24000, 1);
-                        audioCache.current.set(`${s.id}-line-${lIdx}`, buf);
-                    } catch(e) {}
-                }
-            }
-        }
-    };
-    initAudio();
+    }
 
     return () => {
-      activeSourceRef.current?.stop();
+      stopSpeech();
       audioCtxRef.current?.close();
-      window.speechSynthesis.cancel();
+      audioCtxRef.current = null;
       if (customAudioRef.current) customAudioRef.current.pause();
     };
-  }, [movie]);
+  }, [movie.audioMode]);
+
+  // Pre-generated clips are decoded as they arrive, ahead of playback.
+  // The asset store caches them by content, so re-voiced clips decode again and unchanged ones never do;
+  // a clip that fails to decode runs silently on its length.
+  useEffect(() => {
+    let cancelled = false;
+    const decodeNewClips = async () => {
+        for (const event of timeline.events) {
+            const ctx = audioCtxRef.current;
+            if (cancelled || !ctx) return;
+            if (event.audioId) await getAudioBuffer(event.audioId, ctx);
+        }
+    };
+    decodeNewClips();
+    return () => { cancelled = true; };
+  }, [timeline]);
+
+  // --- BUFFERING ---
+  // A scene plays once its assets are generated and its clips decoded
+  const isSceneBuffered = (index: number): boolean => {
+      const target = movie.scenes[index];
+      if (target && !isSceneReady(target)) return false;
+      return timelineRef.current.events.every(e =>
+          e.sceneIndex !== index || !e.audioId || peekAudioBuffer(e.audioId) !== undefined);
+  };
+  const isSceneBufferedRef = useRef(isSceneBuffered);
+  isSceneBufferedRef.current = isSceneBuffered;
+
+  const setBuffering = (value: boolean) => {
+      if (bufferingRef.current === value) return;
+      bufferingRef.current = value;
+      setIsBuffering(value);
+  };
 
   // --- RENDER & DOWNLOAD ---
   const startRender = async () => {
-      if (!containerRef.current) return;
-      
-      // Stop current playback
+      // Stop current playback; rendering happens offscreen and doesn't need the player
       setIsPlaying(false);
-      if (activeSourceRef.current) activeSourceRef.current.stop();
-      if (customAudioRef.current) {
-          customAudioRef.current.pause();
-          customAudioRef.current.currentTime = 0;
-      }
+      stopSpeech();
+      if (customAudioRef.current) customAudioRef.current.pause();
+
+      const controller = new AbortController();
+      renderAbortRef.current = controller;
+      setRenderProgress(0);
+      setIsRenderPaused(false);
+      setIsRendering(true);
 
-      // Reset positions
-      setSceneIndex(0);
-      setScriptIndex(-2);
-      
-      // Start Recording
       try {
-          // We capture the container. 
-          // Note: DisplayMedia captures the screen/tab. 
-          // For a purely "background" render we'd need Canvas recording, but we have HTML elements (text).
-          // So we must use getDisplayMedia, but we'll automate the flow.
-          
-          const stream = await navigator.mediaDevices.getDisplayMedia({
-               video: { displaySurface: "browser" },
-               audio: true
+          const { blob, extension } = await renderMovieToVideo(movie, {
+              signal: controller.signal,
+              onProgress: setRenderProgress,
+              onPausedChange: setIsRenderPaused
           });
+          downloadBlob(blob, `${toFileName(movie.title)}_video.${extension}`);
+      } catch (e) {
+          if (!(e instanceof DOMException && e.name === 'AbortError')) {
+              console.error("Rendering failed", e);
+              alert("Rendering failed. See console for details.");
+          }
+      } finally {
+          renderAbortRef.current = null;
+          setIsRendering(false);
+      }
+  };
 
-          const recorder = new MediaRecorder(stream, { mimeType: 'video/webm; codecs=vp9' });
-          const chunks: BlobPart[] = [];
-          
-          recorder.ondataavailable = (e) => { if(e.data.size > 0) chunks.push(e.data); };
-          recorder.onstop = () => {
-              const blob = new Blob(chunks, { type: 'video/webm' });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = `${movie.title.replace(/\s+/g, '_')}_video.webm`;
-              a.click();
-              setIsRendering(false);
-              setIsPlaying(false);
-              stream.getTracks().forEach(t => t.stop());
-          };
+  const cancelRender = () => renderAbortRef.current?.abort();
 
-          mediaRecorderRef.current = recorder;
-          recorder.start();
-          setIsRendering(true);
-          
-          // Auto-start playback
-          // Give a small delay for recorder to spin up
-          setTimeout(() => {
-              setIsPlaying(true);
-              // Trigger actual play logic by setting indices
-              setSceneIndex(0);
-              setScriptIndex(-1);
-              if (customAudioRef.current) customAudioRef.current.play();
-          }, 1000);
+  const downloadSubtitles = (format: SubtitleFormat) => {
+      setIsSubtitleMenuOpen(false);
+      downloadBlob(exportSubtitles(movie, format), `${toFileName(movie.title)}.${format}`);
+  };
 
+  const exportSoundtrack = async () => {
+      setIsExportingAudio(true);
+      try {
+          const wav = await exportSoundtrackWav(movie);
+          downloadBlob(wav, `${toFileName(movie.title)}_soundtrack.wav`);
       } catch (e) {
-          console.error("Recording failed or cancelled", e);
-          setIsRendering(false);
+          console.error("Soundtrack export failed", e);
+          alert(e instanceof Error ? e.message : "Soundtrack export failed.");
+      } finally {
+          setIsExportingAudio(false);
       }
   };
 
-  // --- CUSTOM AUDIO SYNC ---
-  useEffect(() => {
-      if (movie.audioMode !== 'custom' || !customAudioRef.current) return;
+  useEffect(() => () => renderAbortRef.current?.abort(), []);
 
-      const audio = customAudioRef.current;
-      
-      const handleTimeUpdate = () => {
-          const t = audio.currentTime;
-          const activeIndex = movie.scenes.findIndex(s => {
-              const start = s.startTime ?? 0;
-              const end = s.endTime ?? Infinity;
-              return t >= start && t < end;
-          });
-
-          if (activeIndex !== -1 && activeIndex !== sceneIndex) {
-              setSceneIndex(activeIndex);
-          }
+  const finishPlayback = () => {
+      setIsPlaying(false);
+      stopSpeech();
+      onFinishRef.current();
+  };
 
-          const lastScene = movie.scenes[movie.scenes.length - 1];
-          if (lastScene.endTime && t >= lastScene.endTime) {
-              setIsPlaying(false);
-              if (isRendering && mediaRecorderRef.current?.state === 'recording') {
-                  mediaRecorderRef.current.stop();
-              } else {
-                  onFinish();
+  // --- PLAYBACK CLOCK ---
+  useEffect(() => {
+      if (!isPlaying) return;
+      let frame = 0;
+
+      // Custom mode: the uploaded track is the clock; it pauses while the scene it reaches isn't ready
+      if (movie.audioMode === 'custom') {
+          const audio = customAudioRef.current;
+          if (!audio) return;
+          const tick = () => {
+              const timeline = timelineRef.current;
+              const ms = audio.currentTime * 1000;
+              if (audio.ended || ms >= timeline.duration) {
+                  audio.pause();
+                  updatePosition(Math.min(ms, timeline.duration));
+                  finishPlayback();
+                  return;
               }
-          }
-      };
+              const waiting = !isSceneBufferedRef.current(sceneIndexAt(timeline, ms));
+              if (waiting) audio.pause();
+              else if (audio.paused) audio.play().catch(e => console.error("Playback failed", e));
+              setBuffering(waiting);
+              updatePosition(ms);
+              frame = requestAnimationFrame(tick);
+          };
+          frame = requestAnimationFrame(tick);
+          return () => {
+              cancelAnimationFrame(frame);
+              audio.pause();
+              setBuffering(false);
+          };
+      }
 
-      audio.addEventListener('timeupdate', handleTimeUpdate);
-      audio.addEventListener('ended', () => { 
-          setIsPlaying(false); 
-          if (isRendering && mediaRecorderRef.current?.state === 'recording') {
-              mediaRecorderRef.current.stop();
-          } else {
-              onFinish();
+      clockRef.current = { anchorPos: positionRef.current, anchorAt: performance.now() };
+      const tick = () => {
+          const timeline = timelineRef.current;
+          const now = performance.now();
+          let ms = clockRef.current.anchorPos + (now - clockRef.current.anchorAt);
+
+          // Browser TTS can run longer than its estimate: hold the clock until the utterance ends
+          const current = speechEventAt(timeline, positionRef.current);
+          if (speakingRef.current && current && ms >= current.end - 1) {
+              ms = current.end - 1;
+              clockRef.current = { anchorPos: ms, anchorAt: now };
           }
-      });
 
-      if (isPlaying) audio.play();
-      else audio.pause();
+          // Wait just before a scene that is still generating (or where the playhead already is)
+          const nextIndex = sceneIndexAt(timeline, ms);
+          const waiting = ms < timeline.duration && !isSceneBufferedRef.current(nextIndex);
+          if (waiting) {
+              ms = Math.min(ms, Math.max(positionRef.current, timeline.scenes[nextIndex].start - 1));
+              clockRef.current = { anchorPos: ms, anchorAt: now };
+          }
+          setBuffering(waiting);
 
+          if (ms >= timeline.duration) {
+              updatePosition(timeline.duration);
+              finishPlayback();
+              return;
+          }
+          updatePosition(ms);
+          frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
       return () => {
-          audio.removeEventListener('timeupdate', handleTimeUpdate);
+          cancelAnimationFrame(frame);
+          setBuffering(false);
       };
-  }, [movie.audioMode, isPlaying, movie.scenes, sceneIndex, isRendering]);
+  }, [isPlaying, movie.audioMode, seekToken]);
 
-  // --- GENERATED AUDIO LOOP ---
+  // --- SPEECH FOR THE ACTIVE EVENT ---
   useEffect(() => {
-    if (movie.audioMode === 'custom') return; 
-    if (!isPlaying) return;
-
-    const currentScene = movie.scenes[sceneIndex];
-    if (!currentScene) {
-        setIsPlaying(false);
-        if (isRendering && mediaRecorderRef.current?.state === 'recording') {
-            mediaRecorderRef.current.stop();
-        } else {
-            onFinish();
-        }
-        return;
-    }
-
-    const playAudioBuffer = (buffer: AudioBuffer, onEnd: () => void) => {
-        if (!audioCtxRef.current) return;
-        if (activeSourceRef.current) activeSourceRef.current.stop();
-
-        const source = audioCtxRef.current.createBufferSource();
-        source.buffer = buffer;
-        source.connect(audioCtxRef.current.destination);
-        source.onended = onEnd;
-        source.start();
-        activeSourceRef.current = source;
-    };
-
-    const handlePlaybackStep = (text: string, audioKey: string, nextStep: () => void) => {
-        // If audio disabled during standard playback (not rendering), skip audio
-        // BUT if rendering, we probably want audio unless explicitly muted? 
-        // Let's respect audioEnabled for now.
-        if (!audioEnabled) {
-             const duration = Math.max(2000, text.length * 60);
-             const timer = setTimeout(nextStep, duration);
-             return () => clearTimeout(timer);
-        }
+      if (movie.audioMode === 'custom') return;
+      if (!isPlaying || !audioEnabled || !activeEvent || isBuffering) return;
+
+      const offsetMs = Math.max(0, positionRef.current - activeEvent.start);
+      if (movie.audioMode === 'browser') {
+          if (!activeEvent.text) return;
+          const speakerId = activeEvent.kind === 'dialogue' ? activeEvent.characterId || NARRATOR_ID : NARRATOR_ID;
+          const utterance = createUtterance(movie, speakerId, activeEvent.text);
+          utterance.onend = () => { speakingRef.current = false; };
+          utterance.onerror = () => { speakingRef.current = false; };
+          speakingRef.current = true;
+          window.speechSynthesis.speak(utterance);
+      } else {
+          // Gemini Mode (Pre-generated); events without audio simply run on their estimated length
+          const buffer = activeEvent.audioId ? peekAudioBuffer(activeEvent.audioId) : undefined;
+          const ctx = audioCtxRef.current;
+          if (buffer && ctx && offsetMs / 1000 < buffer.duration) {
+              if (ctx.state === 'suspended') ctx.resume();
+              const source = ctx.createBufferSource();
+              source.buffer = buffer;
+              source.connect(ctx.destination);
+              source.start(0, offsetMs / 1000);
+              activeSourceRef.current = source;
+          }
+      }
+      return () => stopSpeech();
+  }, [activeEvent?.id, isPlaying, audioEnabled, movie.audioMode, seekToken, isBuffering]);
+
+  // Jumps the clock (and every audio source) to an absolute position in ms
+  const seekTo = (ms: number) => {
+      const target = Math.min(Math.max(0, ms), Math.max(0, timeline.duration - 1));
+      stopSpeech();
+      updatePosition(target);
+      clockRef.current = { anchorPos: target, anchorAt: performance.now() };
+      if (customAudioRef.current) customAudioRef.current.currentTime = target / 1000;
+      setSeekToken(t => t + 1);
+  };
 
-        if (movie.audioMode === 'browser') {
-            const utterance = new SpeechSynthesisUtterance(text);
-            // Browser detect lang logic: usually auto, but we can try to guess or default
-            // Since script is in detected language, browser usually handles it well.
-            utterance.onend = () => setTimeout(nextStep, 500);
-            window.speechSynthesis.speak(utterance);
-        } else {
-            // Gemini Mode (Pre-generated)
-            const buffer = audioCache.current.get(audioKey);
-            if (buffer) {
-                playAudioBuffer(buffer, () => {
-                    setTimeout(nextStep, 500);
-                });
-            } else {
-                // Fallback if audio gen failed
-                const duration = Math.max(2000, text.length * 60);
-                setTimeout(nextStep, duration);
-            }
-        }
-    };
+  const jumpForward = (starts: number[]) => {
+      const target = nextStart(starts, positionRef.current);
+      if (target !== undefined) seekTo(target);
+      else seekTo(timeline.duration);
+  };
 
-    // A. Narrator
-    if (scriptIndex === -1) {
-        setCurrentLine(null);
-        setIsNarrating(true);
-        const narrKey = `${currentScene.id}-narrator`;
-        const text = currentScene.description || "";
-        
-        handlePlaybackStep(text, narrKey, () => {
-            setIsNarrating(false);
-            setScriptIndex(0);
-        });
-    } 
-    // B. Dialogue
-    else if (scriptIndex >= 0 && scriptIndex < currentScene.script.length) {
-        const line = currentScene.script[scriptIndex];
-        setCurrentLine(line);
-        setIsNarrating(false);
-        const audioKey = `${currentScene.id}-line-${scriptIndex}`;
-        
-        handlePlaybackStep(line.text, audioKey, () => {
-            setScriptIndex(prev => prev + 1);
-        });
-    } 
-    // C. End of Scene
-    else if (scriptIndex >= currentScene.script.length) {
-        setCurrentLine(null);
-        if (sceneIndex < movie.scenes.length - 1) {
-             setSceneIndex(prev => prev + 1);
-             setScriptIndex(-1);
-        } else {
-            setIsPlaying(false);
-            if (isRendering && mediaRecorderRef.current?.state === 'recording') {
-                mediaRecorderRef.current.stop();
-            } else {
-                onFinish();
-            }
-        }
-    }
-  }, [isPlaying, sceneIndex, scriptIndex, audioEnabled, movie.audioMode, isRendering]);
+  const togglePlay = () => {
+      if (!isPlaying && positionRef.current >= timeline.duration - 1) seekTo(0);
+      setIsPlaying(!isPlaying);
+  };
 
   const toggleFullscreen = async () => {
       if (!containerRef.current) return;
@@ -338,14 +340,7 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
   };
 
   const handleRestart = () => {
-    if (activeSourceRef.current) activeSourceRef.current.stop();
-    if (customAudioRef.current) {
-        customAudioRef.current.currentTime = 0;
-        customAudioRef.current.play();
-    }
-    window.speechSynthesis.cancel();
-    setSceneIndex(0);
-    setScriptIndex(-1);
+    seekTo(0);
     setIsPlaying(true);
   };
 
@@ -359,50 +354,66 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
         } shadow-2xl shadow-indigo-500/20 border border-slate-800 transition-all duration-300 group`}
     >
       {/* Hidden Audio Element for Custom Mode */}
-      {movie.audioMode === 'custom' && movie.customAudioData && (
+      {movie.audioMode === 'custom' && customAudioUrl && (
           <audio 
              ref={customAudioRef} 
-             src={`data:audio/mp3;base64,${movie.customAudioData}`} 
+             src={customAudioUrl} 
              muted={!audioEnabled}
           />
       )}
 
-      {/* Controls Overlay (Top) - HIDDEN DURING RENDERING */}
-      {!isRendering && (
-          <div className={`
-              bg-slate-900 p-4 border-b border-slate-800 flex justify-between items-center shrink-0 z-40
-              ${isFullscreen ? 'absolute top-0 left-0 w-full bg-slate-900/80 backdrop-blur opacity-0 group-hover:opacity-100 border-none transition-opacity' : 'w-full'}
-          `}>
-            <div>
-               <h2 className="text-xl font-bold text-white shadow-black drop-shadow-md truncate max-w-[200px] md:max-w-md">{movie.title}</h2>
-               <div className="flex gap-2 text-sm text-slate-400">
-                 <span>Сцена {sceneIndex + 1} / {movie.scenes.length}</span>
-               </div>
-            </div>
-            <div className="flex gap-2">
-                <button onClick={() => setAudioEnabled(!audioEnabled)} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
-                    {audioEnabled ? <Volume2 size={20} /> : <VolumeX size={20} />}
-                </button>
-                <button onClick={() => setIsPlaying(!isPlaying)} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
-                    {isPlaying ? <Pause size={20} /> : <Play size={20} />}
-                </button>
-                <button onClick={handleRestart} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
-                    <RotateCcw size={20} />
-                </button>
-                <button onClick={startRender} className="p-2 hover:bg-indigo-600 rounded-full text-white transition backdrop-blur-sm ml-2 bg-indigo-700" title="Render Video">
-                    <Download size={20} />
-                </button>
-                <button onClick={toggleFullscreen} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm border-l border-white/10 pl-4">
-                    {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
+      {/* Controls Overlay (Top) */}
+      <div className={`
+          bg-slate-900 p-4 border-b border-slate-800 flex justify-between items-center shrink-0 z-40
+          ${isFullscreen ? 'absolute top-0 left-0 w-full bg-slate-900/80 backdrop-blur opacity-0 group-hover:opacity-100 border-none transition-opacity' : 'w-full'}
+      `}>
+        <div>
+           <h2 className="text-xl font-bold text-white shadow-black drop-shadow-md truncate max-w-[200px] md:max-w-md">{movie.title}</h2>
+           <div className="flex gap-2 text-sm text-slate-400">
+             <span>Сцена {sceneIndex + 1} / {movie.scenes.length}</span>
+           </div>
+        </div>
+        <div className="flex gap-2">
+            <button onClick={() => setAudioEnabled(!audioEnabled)} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
+                {audioEnabled ? <Volume2 size={20} /> : <VolumeX size={20} />}
+            </button>
+            <button onClick={togglePlay} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
+                {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+            </button>
+            <button onClick={handleRestart} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm">
+                <RotateCcw size={20} />
+            </button>
+            <div className="relative ml-2">
+                <button onClick={() => setIsSubtitleMenuOpen(!isSubtitleMenuOpen)} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm" title="Export Subtitles">
+                    <Captions size={20} />
                 </button>
+                {isSubtitleMenuOpen && (
+                    <div className="absolute right-0 top-full mt-2 bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden z-50 text-sm">
+                        <button onClick={() => downloadSubtitles('srt')} className="block w-full text-left px-4 py-2 hover:bg-slate-700 whitespace-nowrap">SubRip (.srt)</button>
+                        <button onClick={() => downloadSubtitles('vtt')} className="block w-full text-left px-4 py-2 hover:bg-slate-700 whitespace-nowrap">WebVTT (.vtt)</button>
+                    </div>
+                )}
             </div>
-          </div>
-      )}
+            {movie.audioMode !== 'browser' && (
+                <button onClick={exportSoundtrack} disabled={isExportingAudio} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm ml-2 disabled:opacity-50" title="Export Soundtrack (WAV)">
+                    {isExportingAudio ? <Loader2 size={20} className="animate-spin" /> : <Music size={20} />}
+                </button>
+            )}
+            <button onClick={startRender} disabled={isRendering} className="p-2 hover:bg-indigo-600 rounded-full text-white transition backdrop-blur-sm ml-2 bg-indigo-700 disabled:opacity-50" title="Render Video">
+                <Download size={20} />
+            </button>
+            <button onClick={toggleFullscreen} className="p-2 hover:bg-slate-800/80 rounded-full text-white transition backdrop-blur-sm border-l border-white/10 pl-4">
+                {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
+            </button>
+        </div>
+      </div>
 
       {/* Rendering Indicator */}
       {isRendering && (
-          <div className="absolute top-4 right-4 z-50 bg-red-600 text-white px-3 py-1 rounded-full text-xs font-bold animate-pulse shadow-lg">
-              REC ●
+          <div className="absolute top-20 right-4 z-50 bg-slate-900/90 border border-slate-700 text-white pl-3 pr-1 py-1 rounded-full text-xs font-bold shadow-lg flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              Rendering {Math.round(renderProgress * 100)}%{isRenderPaused && ' (paused while the tab is hidden)'}
+              <button onClick={cancelRender} className="p-1 hover:bg-slate-700 rounded-full" title="Cancel render"><X size={12} /></button>
           </div>
       )}
 
@@ -415,24 +426,32 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
       >
         <div className="w-full h-full relative">
             {/* Background Image Only */}
-            {scene.backgroundImageUrl ? (
+            {sceneImageUrl ? (
                 <img 
-                    src={scene.backgroundImageUrl} 
+                    src={sceneImageUrl} 
                     className="absolute inset-0 w-full h-full object-cover animate-pan-zoom"
                     alt="background"
                 />
             ) : (
                 <div className="w-full h-full bg-slate-800 flex items-center justify-center text-slate-500">
-                    Generating Visuals...
+                    {scene.imageStatus?.state === 'pending' ? 'Generating Visuals...' : 'Image unavailable'}
+                </div>
+            )}
+
+            {isBuffering && (
+                <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/40 pointer-events-none">
+                    <div className="flex items-center gap-2 bg-slate-900/80 text-white text-sm font-bold px-4 py-2 rounded-full">
+                        <Loader2 size={16} className="animate-spin" /> Buffering...
+                    </div>
                 </div>
             )}
 
             {/* Subtitles / Narrator */}
-            {(isNarrating || (movie.audioMode === 'custom' && scene.script.length > 0)) && (
+            {subtitle && (
                 <div className="absolute inset-0 flex items-end justify-center pb-12 bg-gradient-to-t from-black/80 via-transparent to-transparent pointer-events-none z-20">
                      <div className="max-w-4xl text-center animate-fade-in px-8">
-                        <p className={`text-indigo-100 font-serif italic leading-relaxed text-shadow ${isFullscreen || isRendering ? 'text-3xl' : 'text-xl md:text-2xl'}`}>
-                            "{scene.description}"
+                        <p className={`text-indigo-100 font-serif italic leading-relaxed text-shadow ${isFullscreen ? 'text-3xl' : 'text-xl md:text-2xl'}`}>
+                            "{subtitle}"
                         </p>
                      </div>
                 </div>
@@ -441,8 +460,8 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
             {/* Dialogue Overlay */}
             {currentLine && movie.audioMode !== 'custom' && (
                 <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 z-20 w-full max-w-2xl px-4 pointer-events-none">
-                    <div className={`animate-pop-in bg-white/90 backdrop-blur text-black p-4 rounded-2xl shadow-xl border-2 border-black comic-font leading-tight text-center ${isFullscreen || isRendering ? 'text-2xl' : 'text-lg'}`}>
-                        <span className="block text-xs font-bold text-indigo-600 mb-1 uppercase tracking-wider">{currentLine.characterId}</span>
+                    <div className={`animate-pop-in bg-white/90 backdrop-blur text-black p-4 rounded-2xl shadow-xl border-2 border-black comic-font leading-tight text-center ${isFullscreen ? 'text-2xl' : 'text-lg'}`}>
+                        <span className="block text-xs font-bold text-indigo-600 mb-1 uppercase tracking-wider" style={{ color: currentSpeaker?.color }}>{currentSpeaker?.name || currentLine.characterId}</span>
                         {currentLine.text}
                     </div>
                 </div>
@@ -450,15 +469,19 @@ export const MovieScreen: React.FC<MovieScreenProps> = ({ movie, voices, onFinis
         </div>
       </div>
 
-      {/* Progress Bar (Hidden during Render) */}
-      {!isRendering && (
-          <div className={`h-1 bg-slate-800 w-full relative shrink-0 ${isFullscreen ? 'absolute bottom-0 left-0 right-0 z-30' : ''}`}>
-             <div 
-                className="h-full bg-indigo-500 transition-all duration-300"
-                style={{ width: `${((sceneIndex + 1) / movie.scenes.length) * 100}%` }}
-             />
-          </div>
-      )}
+      {/* Scrubber & Navigation */}
+      <div className={`w-full shrink-0 px-4 py-2 flex items-center gap-3 bg-slate-900 ${isFullscreen ? 'absolute bottom-0 left-0 right-0 z-30 bg-slate-900/80 backdrop-blur opacity-0 group-hover:opacity-100 transition-opacity' : 'rounded-b-2xl'}`}>
+         <div className="flex items-center gap-1 text-slate-300">
+            <button onClick={() => seekTo(previousStart(sceneStarts(timeline), positionMs))} className="p-1 hover:text-white" title="Previous scene"><SkipBack size={16} /></button>
+            <button onClick={() => seekTo(previousStart(lineStarts(timeline), positionMs))} className="p-1 hover:text-white" title="Previous line"><ChevronLeft size={16} /></button>
+            <button onClick={() => jumpForward(lineStarts(timeline))} className="p-1 hover:text-white" title="Next line"><ChevronRight size={16} /></button>
+            <button onClick={() => jumpForward(sceneStarts(timeline))} className="p-1 hover:text-white" title="Next scene"><SkipForward size={16} /></button>
+         </div>
+         <TimelineScrubber movie={movie} timeline={timeline} positionMs={positionMs} onSeek={seekTo} className="flex-1" />
+         <span className="text-xs font-mono text-slate-400 whitespace-nowrap">
+            {formatTimecode(positionMs)} / {formatTimecode(timeline.duration)}
+         </span>
+      </div>
       
       <style>{`
         .text-shadow { text-shadow: 0 2px 4px rgba(0,0,0,0.8); }
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X, Copy, Trash2, Pencil, Check, Film, Loader2 } from 'lucide-react';
+import { ProjectSummary, listProjects, searchProjects, duplicateProject, renameProject, deleteProject } from '../services/projectLibrary';
+
+interface ProjectLibraryProps {
+  currentProjectId?: string;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, onOpen, onDeleted, onRenamed, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Failed to load project library", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (e) {
+      console.error("Failed to duplicate project", e);
+      alert('Failed to duplicate the project.');
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    } catch (e) {
+      console.error("Failed to delete project", e);
+      alert('Failed to delete the project.');
+    }
+    refresh();
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const title = renameValue.trim();
+    if (title) {
+      try {
+        await renameProject(renamingId, title);
+        onRenamed(renamingId, title);
+      } catch (e) {
+        console.error("Failed to rename project", e);
+        alert('Failed to rename the project.');
+      }
+    }
+    setRenamingId(null);
+    refresh();
+  };
+
+  const visible = searchProjects(projects, query);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-6 overflow-y-auto" onClick={onClose}>
+      <div className="w-full max-w-5xl bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-700 flex items-center gap-4 bg-slate-800 rounded-t-2xl">
+          <h3 className="text-lg font-bold text-white shrink-0">Project Library</h3>
+          <div className="flex-1 flex items-center gap-2 bg-slate-900 rounded-lg px-3 border border-slate-700">
+            <Search size={16} className="text-slate-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by title or summary..."
+              className="flex-1 bg-transparent py-2 text-sm text-white outline-none"
+              autoFocus
+            />
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-4">
+          {isLoading ? (
+            <div className="flex justify-center py-16 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : visible.length === 0 ? (
+            <p className="text-center py-16 text-slate-500 italic">
+              {projects.length === 0 ? 'No saved movies yet. Generated movies are saved here automatically.' : 'Nothing matches your search.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+              {visible.map(project => (
+                <div
+                  key={project.id}
+                  className={`bg-slate-800 rounded-xl border overflow-hidden flex flex-col transition-colors ${project.id === currentProjectId ? 'border-indigo-500' : 'border-slate-700 hover:border-indigo-500/50'}`}
+                >
+                  <button onClick={() => onOpen(project.id)} className="aspect-video bg-slate-950 relative group">
+                    {project.thumbnail ? (
+                      <img src={project.thumbnail} className="w-full h-full object-cover" alt={project.title} />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-slate-600"><Film size={32} /></div>
+                    )}
+                    <span className="absolute inset-0 bg-indigo-600/0 group-hover:bg-indigo-600/30 transition flex items-center justify-center text-white font-bold opacity-0 group-hover:opacity-100">
+                      Open
+                    </span>
+                  </button>
+                  <div className="p-3 flex-1 flex flex-col gap-1">
+                    {renamingId === project.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                          className="flex-1 bg-slate-900 px-2 py-1 rounded border border-indigo-500 text-sm text-white outline-none"
+                          autoFocus
+                        />
+                        <button onClick={commitRename} className="p-1 text-green-400 hover:text-green-300"><Check size={16} /></button>
+                      </div>
+                    ) : (
+                      <div className="font-bold text-white truncate">{project.title}</div>
+                    )}
+                    <p className="text-xs text-slate-400 line-clamp-2">{project.summary}</p>
+                    <div className="mt-auto pt-2 flex items-center justify-between text-[11px] text-slate-500">
+                      <span>{project.sceneCount} scenes · {formatDate(project.updatedAt)}</span>
+                      <div className="flex gap-1">
+                        <button onClick={() => startRename(project)} className="p-1 hover:text-white" title="Rename"><Pencil size={14} /></button>
+                        <button onClick={() => handleDuplicate(project.id)} className="p-1 hover:text-white" title="Duplicate"><Copy size={14} /></button>
+                        <button onClick={() => handleDelete(project)} className="p-1 hover:text-red-400" title="Delete"><Trash2 size={14} /></button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React from 'react';
+import { Movie, Scene, DialogueLine, AssetStatus } from '../types';
+import { Trash2, ArrowUp, ArrowDown, Plus, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+import { sceneNeedsNarration, lineNeedsAudio } from '../utils/assetStatus';
+
+interface SceneDetailsEditorProps {
+  movie: Movie;
+  scene: Scene;
+  onChange: (scene: Scene) => void;
+  onRevoiceNarration?: () => void;
+  onRevoiceLine?: (lineIndex: number) => void;
+  revoicingKey?: string | null;
+}
+
+const inputClass = "w-full bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-white";
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, n) : undefined;
+};
+
+export const revoiceKey = (sceneId: string, lineIndex?: number) => lineIndex === undefined ? `${sceneId}:narration` : `${sceneId}:line-${lineIndex}`;
+
+export const SceneDetailsEditor: React.FC<SceneDetailsEditorProps> = ({ movie, scene, onChange, onRevoiceNarration, onRevoiceLine, revoicingKey }) => {
+  const characters = movie.cast;
+  const canRevoice = movie.audioMode === 'gemini';
+
+  const update = (patch: Partial<Scene>) => onChange({ ...scene, ...patch });
+
+  const updateScript = (script: DialogueLine[]) => {
+    // Whoever speaks in the scene is present in it
+    const present = [...scene.characterIds];
+    script.forEach(l => {
+      if (!present.includes(l.characterId) && characters.some(c => c.id === l.characterId)) present.push(l.characterId);
+    });
+    update({ script, characterIds: present });
+  };
+
+  const togglePresent = (id: string) => {
+    const characterIds = scene.characterIds.includes(id) ? scene.characterIds.filter(cid => cid !== id) : [...scene.characterIds, id];
+    update({ characterIds });
+  };
+
+  const updateLine = (index: number, patch: Partial<DialogueLine>) => {
+    const script = scene.script.map((line, i) => {
+      if (i !== index) return line;
+      const next = { ...line, ...patch };
+      // A new text or a different speaker makes the existing clip wrong
+      if (line.audio && (patch.text !== undefined || patch.characterId !== undefined)) next.audioStale = true;
+      return next;
+    });
+    updateScript(script);
+  };
+
+  const moveLine = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= scene.script.length) return;
+    const script = [...scene.script];
+    [script[index], script[target]] = [script[target], script[index]];
+    updateScript(script);
+  };
+
+  const removeLine = (index: number) => updateScript(scene.script.filter((_, i) => i !== index));
+
+  const addLine = () => {
+    const speaker = scene.characterIds[0] || characters[0]?.id || 'narrator';
+    updateScript([...scene.script, { characterId: speaker, text: '' }]);
+  };
+
+  // Stale, failed and never-generated clips all get the button; the title says which
+  const renderRevoice = (needed: boolean, status: AssetStatus | undefined, key: string, onClick?: () => void) => {
+    if (!canRevoice || !needed || !onClick) return null;
+    const busy = revoicingKey === key;
+    const failed = status?.state === 'failed';
+    return (
+      <button
+        onClick={onClick}
+        disabled={busy}
+        className={`shrink-0 flex items-center gap-1 px-2 py-1 rounded text-[11px] font-bold disabled:opacity-50 ${failed ? 'bg-red-500/10 border border-red-500/40 text-red-300 hover:bg-red-500/20' : 'bg-amber-500/10 border border-amber-500/40 text-amber-300 hover:bg-amber-500/20'}`}
+        title={failed ? `Ошибка озвучки: ${status?.reason} — повторить` : "Нет актуальной озвучки — озвучить"}
+      >
+        {busy ? <Loader2 size={12} className="animate-spin" /> : failed ? <AlertTriangle size={12} /> : <RefreshCw size={12} />} {failed ? 'Повторить' : 'Переозвучить'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4 pt-3 mt-3 border-t border-slate-700">
+      {/* Description: what the image shows */}
+      <div>
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Описание кадра</label>
+        <textarea
+          value={scene.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={3}
+          className={`${inputClass} resize-y`}
+          placeholder="Что видно в кадре..."
+        />
+      </div>
+
+      {/* Narration: what is heard and subtitled */}
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">{movie.audioMode === 'custom' ? 'Субтитры' : 'Текст диктора'}</label>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 text-[11px] text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={!!scene.noNarrator} onChange={(e) => update({ noNarrator: e.target.checked || undefined })} className="accent-indigo-500" />
+              Без диктора
+            </label>
+            {renderRevoice(sceneNeedsNarration(movie, scene), scene.narrationStatus, revoiceKey(scene.id), onRevoiceNarration)}
+          </div>
+        </div>
+        <textarea
+          value={scene.narration || ''}
+          onChange={(e) => update({ narration: e.target.value, narrationStale: scene.narrationAudio ? true : scene.narrationStale })}
+          disabled={scene.noNarrator}
+          rows={2}
+          className={`${inputClass} resize-y disabled:opacity-50`}
+          placeholder="Сцена идёт без закадрового текста"
+        />
+      </div>
+
+      {/* Timing */}
+      <div className="flex flex-wrap gap-3">
+        <div className="w-28">
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Длит. (с)</label>
+          <input type="number" min={0} step={0.5} value={scene.duration ?? ''} onChange={(e) => update({ duration: parseNumber(e.target.value) ?? 0 })} className={inputClass} />
+        </div>
+        {movie.audioMode === 'custom' && (
+          <>
+            <div className="w-28">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Начало (с)</label>
+              <input type="number" min={0} step={0.1} value={scene.startTime ?? ''} onChange={(e) => update({ startTime: parseNumber(e.target.value) })} className={inputClass} />
+            </div>
+            <div className="w-28">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Конец (с)</label>
+              <input type="number" min={0} step={0.1} value={scene.endTime ?? ''} onChange={(e) => update({ endTime: parseNumber(e.target.value) })} className={inputClass} />
+            </div>
+            {scene.startTime !== undefined && scene.endTime !== undefined && scene.endTime <= scene.startTime && (
+              <p className="self-end text-xs text-amber-400 flex items-center gap-1 pb-2"><AlertTriangle size={12} /> Конец раньше начала</p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Cast present */}
+      {characters.length > 0 && (
+        <div>
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">В кадре</label>
+          <div className="flex flex-wrap gap-2">
+            {characters.map(c => {
+              const present = scene.characterIds.includes(c.id);
+              const speaks = scene.script.some(l => l.characterId === c.id);
+              return (
+                <button
+                  key={c.id}
+                  onClick={() => togglePresent(c.id)}
+                  disabled={present && speaks}
+                  className={`px-2 py-1 rounded-full text-xs font-bold border transition disabled:cursor-not-allowed ${present ? 'text-white' : 'text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                  style={present ? { backgroundColor: `${c.color}33`, borderColor: c.color } : undefined}
+                  title={present && speaks ? "Персонаж говорит в этой сцене" : undefined}
+                >
+                  {c.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Script */}
+      <div>
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Реплики</label>
+        <div className="space-y-2">
+          {scene.script.map((line, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex flex-col">
+                <button onClick={() => moveLine(index, 'up')} disabled={index === 0} className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30"><ArrowUp size={12} /></button>
+                <button onClick={() => moveLine(index, 'down')} disabled={index === scene.script.length - 1} className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30"><ArrowDown size={12} /></button>
+              </div>
+              <select
+                value={line.characterId}
+                onChange={(e) => updateLine(index, { characterId: e.target.value })}
+                className="w-36 shrink-0 bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-indigo-300"
+                style={{ color: characters.find(c => c.id === line.characterId)?.color }}
+              >
+                {!characters.some(c => c.id === line.characterId) && <option value={line.characterId}>{line.characterId}</option>}
+                {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <textarea
+                value={line.text}
+                onChange={(e) => updateLine(index, { text: e.target.value })}
+                rows={1}
+                className={`${inputClass} resize-y min-h-[34px]`}
+                placeholder="Текст реплики..."
+              />
+              {renderRevoice(lineNeedsAudio(movie, line), line.audioStatus, revoiceKey(scene.id, index), onRevoiceLine ? () => onRevoiceLine(index) : undefined)}
+              <button onClick={() => removeLine(index)} className="p-1.5 text-slate-500 hover:text-red-400 shrink-0" title="Удалить реплику"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+        <button onClick={addLine} className="mt-2 text-xs flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-bold">
+          <Plus size={14} /> Добавить реплику
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,47 +1,41 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Movie, Scene } from '../types';
-import { Trash2, ArrowUp, ArrowDown, Volume2, StopCircle, Plus, Sparkles, X, Loader2 } from 'lucide-react';
-import { generateSpeech, generateSceneFromPrompt } from '../services/geminiService';
+import { Trash2, ArrowUp, ArrowDown, Volume2, StopCircle, Plus, Sparkles, X, Loader2, Pencil, ChevronUp, ImageOff, RefreshCw, Users, Mic } from 'lucide-react';
+import { generateSpeech, generateSceneFromPrompt, regenerateSceneImage, synthesizeClip } from '../services/geminiService';
 import { Button } from './Button';
+import { SceneDetailsEditor, revoiceKey } from './SceneDetailsEditor';
+import { SceneImagePanel } from './SceneImagePanel';
+import { AssetImage } from './AssetImage';
+import { CastPanel } from './CastPanel';
+import { VoiceCastingPanel } from './VoiceCastingPanel';
+import { BrowserVoicePanel } from './BrowserVoicePanel';
+import { decodeBase64, decodePcmAudio } from '../utils/audioUtils';
+import { getAudioBuffer } from '../services/assetStore';
+import { isAbortError } from '../services/jobScheduler';
+import { NARRATOR_ID } from '../utils/cast';
+import { createUtterance } from '../utils/speech';
+import { sceneNeedsNarration, lineNeedsAudio } from '../utils/assetStatus';
+import { getRuntimeReport } from '../utils/runtime';
+import { formatTimecode, sceneNarration } from '../utils/timeline';
 
 interface SceneEditorProps {
   movie: Movie;
+  voices: Map<string, string>;
   onUpdateMovie: (movie: Movie) => void;
   onClose: () => void;
 }
 
-// Helpers for PCM Decoding (duplicated)
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie, onClose }) => {
+export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, voices, onUpdateMovie, onClose }) => {
   const [isAdding, setIsAdding] = useState(false);
+  const [showCast, setShowCast] = useState(false);
+  const [showVoices, setShowVoices] = useState(false);
+  const [expandedSceneId, setExpandedSceneId] = useState<string | null>(null);
+  const [revoicingKey, setRevoicingKey] = useState<string | null>(null);
+  const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set());
+
+  // Async handlers (re-voicing) must apply their result to the latest movie, not the one they started with
+  const movieRef = useRef(movie);
+  movieRef.current = movie;
   const [prompt, setPrompt] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
@@ -51,17 +45,24 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
   const audioCtxRef = useRef<AudioContext | null>(null);
   const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
+  // Requests still running when the editor closes are cancelled
+  const abortRef = useRef<AbortController | null>(null);
+
   // Cleanup audio on unmount
   useEffect(() => {
+    abortRef.current = new AbortController();
     return () => {
+        abortRef.current?.abort();
         if (activeSourceRef.current) activeSourceRef.current.stop();
         if (audioCtxRef.current) audioCtxRef.current.close();
         window.speechSynthesis.cancel();
     }
   }, []);
 
-  const handlePlayDescription = async (scene: Scene, index: number) => {
+  const handlePlayNarration = async (scene: Scene, index: number) => {
     const id = scene.id || String(index);
+    const narration = sceneNarration(scene);
+    if (!narration) return;
     
     // Stop if currently playing this scene
     if (playingSceneId === id) {
@@ -77,8 +78,7 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
 
     if (movie.audioMode === 'browser') {
         setPlayingSceneId(id);
-        const utterance = new SpeechSynthesisUtterance(scene.description);
-        utterance.lang = 'ru-RU';
+        const utterance = createUtterance(movie, NARRATOR_ID, narration);
         utterance.onend = () => setPlayingSceneId(null);
         utterance.onerror = () => setPlayingSceneId(null);
         window.speechSynthesis.speak(utterance);
@@ -94,11 +94,16 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
                 await audioCtxRef.current.resume();
             }
 
-            // Generate speech (using 'Fenrir' as narrator voice)
-            const audioData = await generateSpeech(scene.description, 'Fenrir'); 
+            // The stored narration when it is current, otherwise a one-off preview
+            let buffer: AudioBuffer | undefined;
+            if (scene.narrationAudio && !scene.narrationStale) {
+                buffer = await getAudioBuffer(scene.narrationAudio.assetId, audioCtxRef.current);
+            } else {
+                const audioData = await generateSpeech(narration, voices.get(NARRATOR_ID) || 'Fenrir');
+                if (audioData) buffer = await decodePcmAudio(decodeBase64(audioData), audioCtxRef.current, 24000, 1);
+            }
             
-            if (audioData) {
-                const buffer = await decodeAudioData(decode(audioData), audioCtxRef.current, 24000, 1);
+            if (buffer) {
                 const source = audioCtxRef.current.createBufferSource();
                 source.buffer = buffer;
                 source.connect(audioCtxRef.current.destination);
@@ -120,6 +125,80 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
     }
   };
 
+  const updateScene = (index: number, scene: Scene) => {
+    const current = movieRef.current;
+    const newScenes = current.scenes.map((s, i) => i === index ? scene : s);
+    onUpdateMovie({ ...current, scenes: newScenes });
+  };
+
+  const handleRevoice = async (index: number, lineIndex?: number) => {
+    const scene = movie.scenes[index];
+    const line = lineIndex !== undefined ? scene.script[lineIndex] : undefined;
+    const text = line ? line.text : sceneNarration(scene);
+    if (!text.trim()) return;
+
+    setRevoicingKey(revoiceKey(scene.id, lineIndex));
+    try {
+        const voice = line ? voices.get(line.characterId) || 'Puck' : voices.get(NARRATOR_ID) || 'Fenrir';
+        const { data: audio, status } = await synthesizeClip(text, voice, abortRef.current?.signal);
+        // The scene may have been moved, and the text edited, while the request was running: the
+        // clip is only kept where it still matches what was synthesized (as in mergeRepairedAssets)
+        const latestIndex = movieRef.current.scenes.findIndex(s => s.id === scene.id);
+        const latest = movieRef.current.scenes[latestIndex];
+        if (!latest) return;
+        if (line && lineIndex !== undefined) {
+            const target = latest.script[lineIndex];
+            if (!target || target.text !== line.text || target.characterId !== line.characterId) return;
+            const script = latest.script.map((l, i) => i !== lineIndex ? l : audio ? { ...l, audio, audioStale: false, audioStatus: status } : { ...l, audioStatus: status });
+            updateScene(latestIndex, { ...latest, script });
+        } else {
+            if (sceneNarration(latest) !== text) return;
+            updateScene(latestIndex, audio
+                ? { ...latest, narrationAudio: audio, narrationStale: false, narrationStatus: status }
+                : { ...latest, narrationStatus: status });
+        }
+        if (!audio) alert(`Не удалось сгенерировать аудио: ${status.reason}`);
+    } catch (e) {
+        if (!isAbortError(e)) throw e;
+    } finally {
+        setRevoicingKey(null);
+    }
+  };
+
+  const handleRegenerateImage = async (index: number, promptOverride?: string) => {
+    const scene = movie.scenes[index];
+    setRegeneratingIds(prev => new Set(prev).add(scene.id));
+    try {
+        const updated = await regenerateSceneImage(scene, movieRef.current, promptOverride, abortRef.current?.signal);
+        const failed = updated.imageStatus?.state === 'failed';
+        // Only the image fields come from the request; everything else may have been edited meanwhile
+        const latestIndex = movieRef.current.scenes.findIndex(s => s.id === scene.id);
+        if (latestIndex !== -1) {
+            const latest = movieRef.current.scenes[latestIndex];
+            updateScene(latestIndex, failed ? { ...latest, imageStatus: updated.imageStatus } : {
+                ...latest,
+                imageId: updated.imageId,
+                imagePrompt: updated.imagePrompt,
+                imageTakes: [...new Set([...(latest.imageTakes || []), ...(updated.imageTakes || [])])],
+                imageStatus: updated.imageStatus
+            });
+        }
+        if (failed) alert(`Не удалось сгенерировать изображение: ${updated.imageStatus?.reason}`);
+    } catch (e) {
+        if (!isAbortError(e)) throw e;
+    } finally {
+        setRegeneratingIds(prev => {
+            const next = new Set(prev);
+            next.delete(scene.id);
+            return next;
+        });
+    }
+  };
+
+  const handleSelectTake = (index: number, imageId: string) => {
+    updateScene(index, { ...movie.scenes[index], imageId });
+  };
+
   const handleMoveScene = (index: number, direction: 'up' | 'down') => {
     const newScenes = [...movie.scenes];
     const targetIndex = direction === 'up' ? index - 1 : index + 1;
@@ -140,44 +219,91 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
       if(!prompt.trim()) return;
       setIsLoading(true);
       try {
-          const newScene = await generateSceneFromPrompt(prompt, movie);
+          const newScene = await generateSceneFromPrompt(prompt, movie, abortRef.current?.signal);
           onUpdateMovie({ ...movie, scenes: [...movie.scenes, newScene] });
           setPrompt("");
           setIsAdding(false);
       } catch (e) {
+          if (isAbortError(e)) return;
           alert("Ошибка генерации сцены");
       } finally {
           setIsLoading(false);
       }
   };
 
+  // Runs on the real clip lengths once voiced, on estimates before
+  const runtime = useMemo(() => getRuntimeReport(movie), [movie]);
+
   return (
     <div className="w-full max-w-4xl mx-auto bg-slate-900 rounded-2xl border border-slate-700 overflow-hidden flex flex-col h-[700px]">
       <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-800">
-        <h3 className="text-lg font-bold text-white">Редактор Сцен</h3>
-        <button 
-          onClick={onClose}
-          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm font-bold transition"
-        >
-          Готово
-        </button>
+        <div>
+          <h3 className="text-lg font-bold text-white">Редактор Сцен</h3>
+          {runtime.targetMs !== undefined && (
+            <p className={`text-xs ${runtime.overTarget ? 'text-amber-400' : 'text-slate-400'}`}>
+              Хронометраж: {formatTimecode(runtime.actualMs)} из {formatTimecode(runtime.targetMs)}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCast(!showCast)}
+            className={`px-3 py-2 rounded-lg text-sm font-bold transition flex items-center gap-2 ${showCast ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-300 hover:bg-slate-700'}`}
+          >
+            <Users size={16} /> Персонажи ({movie.cast.length})
+          </button>
+          {movie.audioMode !== 'custom' && (
+            <button
+              onClick={() => setShowVoices(!showVoices)}
+              className={`px-3 py-2 rounded-lg text-sm font-bold transition flex items-center gap-2 ${showVoices ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-300 hover:bg-slate-700'}`}
+            >
+              <Mic size={16} /> Голоса
+            </button>
+          )}
+          <button 
+            onClick={onClose}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm font-bold transition"
+          >
+            Готово
+          </button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+        {showCast && <CastPanel movie={movie} onChange={onUpdateMovie} />}
+        {showVoices && movie.audioMode === 'gemini' && <VoiceCastingPanel movie={movie} onChange={onUpdateMovie} />}
+        {showVoices && movie.audioMode === 'browser' && <BrowserVoicePanel movie={movie} onChange={onUpdateMovie} />}
+
         {movie.scenes.map((scene, index) => {
             const sceneId = scene.id || String(index);
             const isPlaying = playingSceneId === sceneId;
             const isLoadingAudio = loadingAudioId === sceneId;
+            const isExpanded = expandedSceneId === sceneId;
+            const isRegenerating = regeneratingIds.has(scene.id);
+            const unvoicedCount = (sceneNeedsNarration(movie, scene) ? 1 : 0) + scene.script.filter(l => lineNeedsAudio(movie, l)).length;
+            const sceneRuntime = runtime.scenes[index];
 
             return (
-              <div key={sceneId} className="bg-slate-800 p-4 rounded-xl border border-slate-700 flex items-center gap-4 hover:border-indigo-500/50 transition-colors">
+              <div key={sceneId} className="bg-slate-800 p-4 rounded-xl border border-slate-700 hover:border-indigo-500/50 transition-colors">
+              <div className="flex items-center gap-4">
                 
                 {/* Scene Preview (Mini) */}
                 <div className="w-24 h-16 bg-slate-900 rounded-lg overflow-hidden relative shrink-0 border border-slate-600">
-                  {scene.backgroundImageUrl ? (
-                      <img src={scene.backgroundImageUrl} className="w-full h-full object-cover" alt="scene" />
+                  {scene.imageId ? (
+                      <AssetImage assetId={scene.imageId} className="w-full h-full object-cover" alt="scene" />
                   ) : (
-                      <div className="w-full h-full flex items-center justify-center text-xs text-slate-500">Generating...</div>
+                      <button
+                        onClick={() => handleRegenerateImage(index)}
+                        disabled={isRegenerating}
+                        className="w-full h-full flex flex-col items-center justify-center gap-0.5 text-[10px] text-amber-400 bg-amber-500/10 hover:bg-amber-500/20"
+                        title={scene.imageStatus?.reason ? `Ошибка: ${scene.imageStatus.reason} — повторить` : "Изображение не создано — повторить"}
+                      >
+                        {isRegenerating ? <Loader2 size={14} className="animate-spin" /> : <ImageOff size={14} />}
+                        {isRegenerating ? 'Генерация...' : 'Повторить'}
+                      </button>
+                  )}
+                  {scene.imageId && isRegenerating && (
+                      <div className="absolute inset-0 bg-black/50 flex items-center justify-center"><RefreshCw size={14} className="animate-spin text-white" /></div>
                   )}
                   <div className="absolute top-0 left-0 bg-black/60 text-white text-[10px] px-1">
                     #{index + 1}
@@ -188,13 +314,22 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
                 <div className="flex-1 min-w-0 flex items-start gap-2">
                   <div className="flex-1 min-w-0">
                       <p className="text-sm text-slate-300 truncate font-medium">{scene.description}</p>
-                      <p className="text-xs text-slate-500 mt-1">Реплик: {scene.script.length}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        Реплик: {scene.script.length}
+                        {!sceneNarration(scene) && <span className="ml-2">· без диктора</span>}
+                        {unvoicedCount > 0 && <span className="ml-2 text-amber-400">· без озвучки: {unvoicedCount}</span>}
+                        {sceneRuntime?.overLong && sceneRuntime.plannedMs !== undefined && (
+                          <span className="ml-2 text-amber-400" title="Сцена длиннее запланированного — сократите текст">
+                            · длиннее плана: {formatTimecode(sceneRuntime.actualMs)} / {formatTimecode(sceneRuntime.plannedMs)}
+                          </span>
+                        )}
+                      </p>
                   </div>
                   <button 
-                    onClick={() => handlePlayDescription(scene, index)}
-                    disabled={isLoadingAudio}
-                    className="p-1.5 rounded-full hover:bg-indigo-500/20 text-indigo-400 transition shrink-0"
-                    title="Озвучить описание"
+                    onClick={() => handlePlayNarration(scene, index)}
+                    disabled={isLoadingAudio || !sceneNarration(scene)}
+                    className="p-1.5 rounded-full hover:bg-indigo-500/20 text-indigo-400 transition shrink-0 disabled:opacity-30"
+                    title="Прослушать текст диктора"
                   >
                     {isLoadingAudio ? (
                         <Loader2 size={16} className="animate-spin" />
@@ -208,6 +343,13 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
 
                 {/* Actions */}
                 <div className="flex items-center gap-2 border-l border-slate-700 pl-2">
+                  <button
+                    onClick={() => setExpandedSceneId(isExpanded ? null : sceneId)}
+                    className={`p-2 rounded transition ${isExpanded ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+                    title={isExpanded ? "Свернуть" : "Редактировать сцену"}
+                  >
+                    {isExpanded ? <ChevronUp size={18} /> : <Pencil size={18} />}
+                  </button>
                   <div className="flex flex-col gap-1">
                     <button 
                       onClick={() => handleMoveScene(index, 'up')}
@@ -233,6 +375,28 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ movie, onUpdateMovie,
                   </button>
                 </div>
               </div>
+
+              {isExpanded && (
+                <SceneImagePanel
+                  movie={movie}
+                  scene={scene}
+                  isRegenerating={isRegenerating}
+                  onRegenerate={(prompt) => handleRegenerateImage(index, prompt)}
+                  onSelectTake={(imageId) => handleSelectTake(index, imageId)}
+                />
+              )}
+
+              {isExpanded && (
+                <SceneDetailsEditor
+                  movie={movie}
+                  scene={scene}
+                  onChange={(updated) => updateScene(index, updated)}
+                  onRevoiceNarration={() => handleRevoice(index)}
+                  onRevoiceLine={(lineIndex) => handleRevoice(index, lineIndex)}
+                  revoicingKey={revoicingKey}
+                />
+              )}
+              </div>
             );
         })}
       </div>
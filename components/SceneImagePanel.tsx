@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Movie, Scene, AssetId } from '../types';
+import { RefreshCw, Loader2, RotateCcw, AlertTriangle } from 'lucide-react';
+import { buildScenePrompt } from '../services/geminiService';
+import { AssetImage } from './AssetImage';
+
+interface SceneImagePanelProps {
+  movie: Movie;
+  scene: Scene;
+  isRegenerating: boolean;
+  onRegenerate: (prompt: string) => void;
+  onSelectTake: (imageId: AssetId) => void;
+}
+
+export const SceneImagePanel: React.FC<SceneImagePanelProps> = ({ movie, scene, isRegenerating, onRegenerate, onSelectTake }) => {
+  const builtPrompt = buildScenePrompt(scene, movie);
+  const [prompt, setPrompt] = useState(scene.imagePrompt || builtPrompt);
+
+  // Follow the scene when a new take arrives with a different prompt
+  useEffect(() => {
+    setPrompt(scene.imagePrompt || builtPrompt);
+  }, [scene.imagePrompt]);
+
+  const takes = scene.imageTakes || (scene.imageId ? [scene.imageId] : []);
+
+  return (
+    <div className="pt-3 mt-3 border-t border-slate-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Промпт изображения</label>
+        <button
+          onClick={() => setPrompt(builtPrompt)}
+          disabled={prompt === builtPrompt}
+          className="text-[11px] flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-30"
+          title="Собрать промпт заново из описания сцены"
+        >
+          <RotateCcw size={12} /> Сбросить
+        </button>
+      </div>
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        rows={3}
+        className="w-full bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-xs font-mono text-slate-200 resize-y"
+      />
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onRegenerate(prompt)}
+          disabled={isRegenerating || !prompt.trim()}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-xs font-bold disabled:opacity-50"
+        >
+          {isRegenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          {scene.imageId ? 'Перегенерировать' : 'Повторить генерацию'}
+        </button>
+        {!scene.imageId && (
+          <span className="text-xs text-amber-400 flex items-center gap-1"><AlertTriangle size={12} /> Изображение не было создано</span>
+        )}
+      </div>
+
+      {takes.length > 0 && (
+        <div>
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Дубли ({takes.length})</label>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {takes.map((take, i) => (
+              <button
+                key={take}
+                onClick={() => onSelectTake(take)}
+                className={`relative w-24 h-16 shrink-0 rounded-lg overflow-hidden border-2 transition ${take === scene.imageId ? 'border-indigo-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                title={`Дубль ${i + 1}`}
+              >
+                <AssetImage assetId={take} className="w-full h-full object-cover" alt={`take ${i + 1}`} />
+                <span className="absolute bottom-0 right-0 bg-black/60 text-white text-[10px] px-1">{i + 1}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
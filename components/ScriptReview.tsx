@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { Movie, Scene } from '../types';
+import { Sparkles, Trash2, RotateCcw, X, Users } from 'lucide-react';
+import { buildScenePrompt } from '../services/geminiService';
+import { Button } from './Button';
+import { CastPanel } from './CastPanel';
+import { SceneDetailsEditor } from './SceneDetailsEditor';
+import { getRuntimeReport } from '../utils/runtime';
+import { formatTimecode } from '../utils/timeline';
+
+interface ScriptReviewProps {
+  movie: Movie;
+  onChange: (movie: Movie) => void;
+  onApprove: () => void;
+  onDiscard: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-white";
+
+// The written script before any image or voice is paid for. Everything edited here is what
+// produceMovie works from: descriptions, narration, dialogue, cast and the image prompt of each scene.
+export const ScriptReview: React.FC<ScriptReviewProps> = ({ movie, onChange, onApprove, onDiscard }) => {
+  const runtime = useMemo(() => getRuntimeReport(movie), [movie]);
+  const lineCount = movie.scenes.reduce((sum, s) => sum + s.script.length, 0);
+
+  const updateScene = (index: number, scene: Scene) => {
+    onChange({ ...movie, scenes: movie.scenes.map((s, i) => i === index ? scene : s) });
+  };
+
+  const removeScene = (index: number) => {
+    onChange({ ...movie, scenes: movie.scenes.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-slate-900 rounded-2xl border border-slate-700 overflow-hidden flex flex-col animate-fade-in">
+      <div className="p-4 border-b border-slate-700 bg-slate-800 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-white">Проверка сценария</h3>
+            <p className="text-xs text-slate-400">
+              Сцен: {movie.scenes.length} · реплик: {lineCount}
+              {runtime.targetMs !== undefined && (
+                <span className={runtime.overTarget ? 'text-amber-400' : undefined}> · хронометраж ≈ {formatTimecode(runtime.actualMs)} из {formatTimecode(runtime.targetMs)}</span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button variant="secondary" onClick={onDiscard}>
+              <X size={16} /> Отменить
+            </Button>
+            <Button onClick={onApprove} disabled={movie.scenes.length === 0}>
+              <Sparkles size={16} /> Утвердить и снять
+            </Button>
+          </div>
+        </div>
+        <input value={movie.title} onChange={(e) => onChange({ ...movie, title: e.target.value })} className={`${inputClass} font-bold`} placeholder="Название" />
+        <textarea value={movie.summary} onChange={(e) => onChange({ ...movie, summary: e.target.value })} rows={2} className={`${inputClass} resize-y`} placeholder="Краткое содержание" />
+        <p className="text-xs text-slate-500">Изображения и озвучка создаются только после утверждения и по этому тексту.</p>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div>
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-2"><Users size={12} /> Персонажи</label>
+          <CastPanel movie={movie} onChange={onChange} />
+        </div>
+
+        {movie.scenes.map((scene, index) => {
+          const builtPrompt = buildScenePrompt(scene, movie);
+          return (
+            <div key={scene.id || index} className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-bold text-white">Сцена {index + 1}</span>
+                <button onClick={() => removeScene(index)} className="p-1.5 text-slate-500 hover:text-red-400" title="Удалить сцену">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              <SceneDetailsEditor movie={movie} scene={scene} onChange={(updated) => updateScene(index, updated)} />
+
+              {/* Image prompt: built from the scene until the user writes their own */}
+              <div className="pt-3 mt-3 border-t border-slate-700">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Промпт изображения</label>
+                  <button
+                    onClick={() => updateScene(index, { ...scene, imagePromptOverride: undefined })}
+                    disabled={scene.imagePromptOverride === undefined}
+                    className="text-[11px] flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-30"
+                    title="Собирать промпт из описания сцены"
+                  >
+                    <RotateCcw size={12} /> Сбросить
+                  </button>
+                </div>
+                <textarea
+                  value={scene.imagePromptOverride ?? builtPrompt}
+                  onChange={(e) => updateScene(index, { ...scene, imagePromptOverride: e.target.value === builtPrompt ? undefined : e.target.value })}
+                  rows={3}
+                  className="w-full bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-xs font-mono text-slate-200 resize-y"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
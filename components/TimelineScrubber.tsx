@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { Movie } from '../types';
+import { Timeline, sceneIndexAt, formatTimecode } from '../utils/timeline';
+import { AssetImage } from './AssetImage';
+
+interface TimelineScrubberProps {
+  movie: Movie;
+  timeline: Timeline;
+  positionMs: number;
+  onSeek: (ms: number) => void;
+  className?: string;
+}
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ movie, timeline, positionMs, onSeek, className = '' }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [hoverMs, setHoverMs] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const duration = Math.max(1, timeline.duration);
+  const percent = (ms: number) => `${Math.min(100, Math.max(0, (ms / duration) * 100))}%`;
+
+  const msFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+    onSeek(msFromPointer(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const ms = msFromPointer(e.clientX);
+    setHoverMs(ms);
+    if (isDragging) onSeek(ms);
+  };
+
+  const hoverScene = hoverMs !== null ? movie.scenes[sceneIndexAt(timeline, hoverMs)] : undefined;
+
+  return (
+    <div className={`relative w-full select-none ${className}`}>
+      {/* Hover Preview */}
+      {hoverMs !== null && hoverScene && (
+        <div
+          className="absolute bottom-full mb-3 -translate-x-1/2 pointer-events-none z-40 bg-slate-900 border border-slate-700 rounded-lg overflow-hidden shadow-xl w-40"
+          style={{ left: `clamp(80px, ${percent(hoverMs)}, calc(100% - 80px))` }}
+        >
+          <div className="aspect-video bg-slate-800">
+            {hoverScene.imageId && <AssetImage assetId={hoverScene.imageId} className="w-full h-full object-cover" alt="preview" />}
+          </div>
+          <div className="px-2 py-1 text-[11px] text-slate-300 flex justify-between">
+            <span>Сцена {sceneIndexAt(timeline, hoverMs) + 1}</span>
+            <span className="font-mono">{formatTimecode(hoverMs)}</span>
+          </div>
+        </div>
+      )}
+
+      <div
+        ref={trackRef}
+        className="relative h-4 flex items-center cursor-pointer group/scrub touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setIsDragging(false)}
+        onPointerLeave={() => { if (!isDragging) setHoverMs(null); }}
+      >
+        <div className="absolute inset-x-0 h-1 group-hover/scrub:h-1.5 bg-slate-700 rounded-full transition-all overflow-hidden">
+          <div className="h-full bg-indigo-500" style={{ width: percent(positionMs) }} />
+        </div>
+
+        {/* Chapter markers at every scene boundary */}
+        {timeline.scenes.slice(1).map(s => (
+          <div key={s.id} className="absolute w-0.5 h-2.5 bg-slate-300/70 rounded pointer-events-none" style={{ left: percent(s.start) }} />
+        ))}
+
+        <div
+          className="absolute w-3 h-3 bg-white rounded-full shadow -translate-x-1/2 opacity-0 group-hover/scrub:opacity-100 transition-opacity pointer-events-none"
+          style={{ left: percent(positionMs) }}
+        />
+      </div>
+    </div>
+  );
+};
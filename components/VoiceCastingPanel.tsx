@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Movie } from '../types';
+import { Play, StopCircle, Loader2, Shuffle } from 'lucide-react';
+import { generateSpeech, getVoiceMap, markRecastClipsStale, recastVoices } from '../services/geminiService';
+import { getProvider } from '../services/providers';
+import { decodeBase64, decodePcmAudio, TTS_SAMPLE_RATE } from '../utils/audioUtils';
+import { NARRATOR_ID } from '../utils/cast';
+import { getVoiceSampleText } from '../utils/speech';
+
+interface VoiceCastingPanelProps {
+  movie: Movie;
+  onChange: (movie: Movie) => void;
+}
+
+export const VoiceCastingPanel: React.FC<VoiceCastingPanelProps> = ({ movie, onChange }) => {
+  const voiceOptions = getProvider().voices;
+  const voices = getVoiceMap(movie);
+
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Samples keyed by `${voice}:${text}`, so switching back and forth doesn't re-synthesize
+  const sampleCacheRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    return () => {
+      sourceRef.current?.stop();
+      audioCtxRef.current?.close();
+    };
+  }, []);
+
+  const stopPreview = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    setPreviewingId(null);
+  };
+
+  const handlePreview = async (speakerId: string) => {
+    const wasPlaying = previewingId === speakerId;
+    stopPreview();
+    if (wasPlaying) return;
+
+    const voice = voices.get(speakerId)!;
+    const text = getVoiceSampleText(movie, speakerId).slice(0, 200);
+    const key = `${voice}:${text}`;
+    setLoadingId(speakerId);
+    try {
+      let audioData = sampleCacheRef.current.get(key);
+      if (!audioData) {
+        audioData = await generateSpeech(text, voice);
+        if (!audioData) {
+          alert("Не удалось сгенерировать аудио.");
+          return;
+        }
+        sampleCacheRef.current.set(key, audioData);
+      }
+
+      if (!audioCtxRef.current) {
+        const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+        audioCtxRef.current = new Ctx({ sampleRate: TTS_SAMPLE_RATE });
+      }
+      const ctx = audioCtxRef.current;
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      const source = ctx.createBufferSource();
+      source.buffer = await decodePcmAudio(decodeBase64(audioData), ctx);
+      source.connect(ctx.destination);
+      source.onended = () => setPreviewingId(null);
+      sourceRef.current = source;
+      setPreviewingId(speakerId);
+      source.start();
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const setVoice = (speakerId: string, voice: string) => {
+    const next: Movie = speakerId === NARRATOR_ID
+      ? { ...movie, narratorVoice: voice }
+      : { ...movie, cast: movie.cast.map(c => c.id === speakerId ? { ...c, voice } : c) };
+    onChange(markRecastClipsStale(movie, next));
+  };
+
+  const handleRecast = () => {
+    stopPreview();
+    onChange(recastVoices(movie, `${movie.title}:${Date.now()}`));
+  };
+
+  const speakers = [
+    { id: NARRATOR_ID, name: 'Рассказчик', color: '#94a3b8' },
+    ...movie.cast.map(c => ({ id: c.id, name: c.name, color: c.color }))
+  ];
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-2">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-slate-400">Смена голоса помечает уже озвученные реплики для переозвучки.</p>
+        <button onClick={handleRecast} className="text-xs flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-bold shrink-0" title="Раздать голоса заново">
+          <Shuffle size={14} /> Перераспределить
+        </button>
+      </div>
+
+      {speakers.map(speaker => {
+        const voice = voices.get(speaker.id) || '';
+        const isLoading = loadingId === speaker.id;
+        const isPlaying = previewingId === speaker.id;
+        return (
+          <div key={speaker.id} className="flex items-center gap-3 bg-slate-900/50 px-3 py-2 rounded-lg border border-slate-700">
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: speaker.color }} />
+            <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-200">{speaker.name}</span>
+            <select
+              value={voice}
+              onChange={(e) => setVoice(speaker.id, e.target.value)}
+              className="w-48 shrink-0 bg-slate-900 px-2 py-1.5 rounded border border-slate-700 focus:border-indigo-500 outline-none text-sm text-slate-200"
+            >
+              {!voiceOptions.some(v => v.id === voice) && <option value={voice}>{voice}</option>}
+              <optgroup label="Мужские">
+                {voiceOptions.filter(v => v.gender === 'male').map(v => <option key={v.id} value={v.id}>{v.id} — {v.label}</option>)}
+              </optgroup>
+              <optgroup label="Женские">
+                {voiceOptions.filter(v => v.gender === 'female').map(v => <option key={v.id} value={v.id}>{v.id} — {v.label}</option>)}
+              </optgroup>
+            </select>
+            <button
+              onClick={() => handlePreview(speaker.id)}
+              disabled={isLoading}
+              className="p-1.5 rounded-full hover:bg-indigo-500/20 text-indigo-400 transition shrink-0"
+              title="Прослушать"
+            >
+              {isLoading ? <Loader2 size={16} className="animate-spin" /> : isPlaying ? <StopCircle size={16} /> : <Play size={16} />}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import { AssetId } from "../types";
+import { openLibraryDb, promisify, transactionDone, ASSET_STORE } from "./libraryDb";
+import { decodeBase64, encodeBase64, decodePcmAudio } from "../utils/audioUtils";
+import { InlineData, parseDataUrl } from "../utils/dataUrl";
+
+// Binary assets (scene images, voice clips, uploaded tracks) live here instead of inline in the
+// Movie. They are addressed by the SHA-256 of their bytes, so identical assets are stored once;
+// copies of a movie only copy ids. Blobs stay in memory for the session and in IndexedDB across
+// reloads until no saved project uses them (deleteAssetsExcept). Decoded audio is cached per asset
+// as well, so an edit never re-decodes unchanged clips.
+
+const blobs = new Map<AssetId, Blob>();
+const loading = new Map<AssetId, Promise<Blob | undefined>>();
+const objectUrls = new Map<AssetId, string>();
+
+// --- HASHING ---
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashBytes = async (bytes: Uint8Array): Promise<AssetId> =>
+  toHex(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+
+// --- STORAGE ---
+
+const persist = async (id: AssetId, blob: Blob) => {
+  try {
+    const db = await openLibraryDb();
+    const tx = db.transaction(ASSET_STORE, 'readwrite');
+    tx.objectStore(ASSET_STORE).put(blob, id);
+    await transactionDone(tx);
+  } catch (e) {
+    // Without IndexedDB (e.g. private browsing) assets still work for the session
+    console.warn("Asset could not be persisted", e);
+  }
+};
+
+export const putAsset = async (blob: Blob): Promise<AssetId> => {
+  const id = await hashBytes(new Uint8Array(await blob.arrayBuffer()));
+  if (!blobs.has(id)) {
+    blobs.set(id, blob);
+    await persist(id, blob);
+  }
+  return id;
+};
+
+export const putBase64Asset = (base64: string, mimeType: string): Promise<AssetId> =>
+  putAsset(new Blob([decodeBase64(base64) as Uint8Array<ArrayBuffer>], { type: mimeType }));
+
+export const putDataUrlAsset = (dataUrl: string): Promise<AssetId> => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return Promise.reject(new Error("Asset is not a base64 data URL."));
+  return putBase64Asset(parsed.data, parsed.mimeType);
+};
+
+// Memory first, then IndexedDB; undefined when the asset is gone (e.g. site data was cleared)
+export const getAsset = (id: AssetId): Promise<Blob | undefined> => {
+  const cached = blobs.get(id);
+  if (cached) return Promise.resolve(cached);
+  let pending = loading.get(id);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const db = await openLibraryDb();
+        const blob: Blob | undefined = await promisify(db.transaction(ASSET_STORE).objectStore(ASSET_STORE).get(id));
+        if (blob) blobs.set(id, blob);
+        return blob;
+      } catch (e) {
+        console.warn("Asset could not be loaded", id, e);
+        return undefined;
+      } finally {
+        loading.delete(id);
+      }
+    })();
+    loading.set(id, pending);
+  }
+  return pending;
+};
+
+// --- ACCESSORS ---
+
+// The same asset always gets the same object URL; it lives as long as the page
+export const peekAssetUrl = (id?: AssetId): string | undefined => {
+  if (!id) return undefined;
+  let url = objectUrls.get(id);
+  if (!url) {
+    const blob = blobs.get(id);
+    if (!blob) return undefined;
+    url = URL.createObjectURL(blob);
+    objectUrls.set(id, url);
+  }
+  return url;
+};
+
+export const getAssetUrl = async (id?: AssetId): Promise<string | undefined> => {
+  if (!id) return undefined;
+  await getAsset(id);
+  return peekAssetUrl(id);
+};
+
+export const getAssetInlineData = async (id: AssetId): Promise<InlineData | undefined> => {
+  const blob = await getAsset(id);
+  if (!blob) return undefined;
+  return { mimeType: blob.type || 'application/octet-stream', data: encodeBase64(new Uint8Array(await blob.arrayBuffer())) };
+};
+
+// --- DECODED AUDIO ---
+
+// Raw TTS output is stored as this type; anything else is a file the browser decodes (the uploaded mp3/wav)
+export const PCM_MIME_TYPE = 'audio/pcm';
+
+const decoded = new Map<AssetId, AudioBuffer>();
+// Missing or undecodable on the last attempt; the next getAudioBuffer call tries again
+const failedDecodes = new Set<AssetId>();
+const decoding = new Map<AssetId, Promise<AudioBuffer | undefined>>();
+
+// The asset's type says how to decode it, so one id always decodes the same way
+export const getAudioBuffer = (id: AssetId, ctx: BaseAudioContext): Promise<AudioBuffer | undefined> => {
+  const cached = decoded.get(id);
+  if (cached) return Promise.resolve(cached);
+  let pending = decoding.get(id);
+  if (!pending) {
+    pending = (async () => {
+      let buffer: AudioBuffer | undefined;
+      try {
+        const blob = await getAsset(id);
+        if (blob) {
+          const bytes = await blob.arrayBuffer();
+          buffer = blob.type === PCM_MIME_TYPE ? await decodePcmAudio(new Uint8Array(bytes), ctx) : await ctx.decodeAudioData(bytes);
+        }
+      } catch (e) {
+        console.warn("Audio asset could not be decoded", id, e);
+      }
+      if (buffer) {
+        decoded.set(id, buffer);
+        failedDecodes.delete(id);
+      } else {
+        failedDecodes.add(id);
+      }
+      decoding.delete(id);
+      return buffer;
+    })();
+    decoding.set(id, pending);
+  }
+  return pending;
+};
+
+// Synchronous view for the playback clock: undefined while decoding hasn't settled yet,
+// null when the last attempt failed (the clip then runs silently on its length)
+export const peekAudioBuffer = (id: AssetId): AudioBuffer | null | undefined =>
+  decoded.get(id) ?? (failedDecodes.has(id) ? null : undefined);
+
+// --- CLEANUP ---
+
+// Drops an asset from the session caches and revokes its object URL
+const forgetAsset = (id: AssetId) => {
+  blobs.delete(id);
+  decoded.delete(id);
+  failedDecodes.delete(id);
+  const url = objectUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(id);
+};
+
+// Deletes every asset outside `keep`, from IndexedDB and from memory
+export const deleteAssetsExcept = async (keep: Set<AssetId>): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction(ASSET_STORE, 'readwrite');
+  const store = tx.objectStore(ASSET_STORE);
+  const stored = await promisify(store.getAllKeys());
+  stored.forEach(key => { if (!keep.has(String(key))) store.delete(key); });
+  await transactionDone(tx);
+  const cached = new Set<AssetId>([...blobs.keys(), ...objectUrls.keys(), ...decoded.keys(), ...failedDecodes]);
+  cached.forEach(id => { if (!keep.has(id)) forgetAsset(id); });
+};
@@ -1,39 +1,66 @@
-import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { Movie, VisualStyle, CharacterConfig, Scene, SceneCount, AudioMode, AspectRatio, Character } from "../types";
-
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type, Schema } from "@google/genai";
+import { Movie, VisualStyle, CharacterConfig, Scene, MovieLength, AudioMode, AspectRatio, CastMember, AssetStatus, AssetId, AudioClip } from "../types";
+import { getProvider, ReferenceImage, VoiceOption } from "./providers";
+import { castColor, getSceneCast, NARRATOR_ID } from "../utils/cast";
+import { createRandom } from "../utils/random";
+import { createJobScheduler, isAbortError } from "./jobScheduler";
+import { GenerationEvent } from "../utils/generationProgress";
+import { ASSET_OK, ASSET_PENDING, assetFailed, findMissingAssets, snapshotMovie } from "../utils/assetStatus";
+import { pcmClipMs, sceneNarration } from "../utils/timeline";
+import { putBase64Asset, putDataUrlAsset, PCM_MIME_TYPE } from "./assetStore";
+import { planRuntime, fitSceneDurations, getRuntimeReport, speechCharsFor } from "../utils/runtime";
+import { parseStoryJson, validateOutline, validateStandaloneScene, validateStory, reportStoryIssues, Story, StoryIssue, StoryOutline, StoryScene, OutlineScene } from "../utils/storyValidation";
 
 // Voices
-const MALE_VOICES = ['Puck', 'Charon', 'Fenrir'];
-const FEMALE_VOICES = ['Kore', 'Zephyr'];
 const NARRATOR_VOICE = 'Fenrir'; 
+const FALLBACK_VOICE = 'Puck';
+
+// Image models degrade (and requests balloon) with too many inline references
+const MAX_REFERENCE_IMAGES = 4;
+
+// A whole long script doesn't fit one response: the outline comes first, then scenes in batches.
+// A batch that fails (e.g. cut off) is retried on its own before the generation gives up.
+const SCENE_BATCH_SIZE = 5;
+const MAX_BATCH_ATTEMPTS = 3;
 
 // --- HELPERS ---
 
-const safeJsonParse = <T>(text: string): T => {
-  if (!text) throw new Error("AI returned empty response");
-  let cleanText = text.replace(/```json\n?|```/g, '').trim();
-  try {
-    return JSON.parse(cleanText) as T;
-  } catch (e) {
-    console.error("JSON Parse Error. Text snippet:", cleanText.slice(-100));
-    if (e instanceof SyntaxError && (e.message.includes("Unterminated string") || e.message.includes("End of data") || e.message.includes("Expected"))) {
-       throw new Error("Response was cut off. The story is too long. Try fewer scenes.");
-    }
-    throw new Error("Failed to parse AI response. " + (e instanceof Error ? e.message : String(e)));
-  }
-};
+// Every provider call goes through here: per-capability concurrency, rate limiting, retries
+const scheduler = createJobScheduler();
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: GenerationEvent) => void;
+}
 
 // --- SCHEMAS ---
 
-const getNormalizedStorySchema = (isCustomAudio: boolean): Schema => {
+const castSchema: Schema = {
+  type: Type.ARRAY,
+  description: "List of all characters appearing in the movie.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      name: { type: Type.STRING, description: "Name" },
+      description: { type: Type.STRING, description: "Visual appearance description." }
+    },
+    required: ["id", "name", "description"]
+  }
+};
+
+const getSceneSchema = (isCustomAudio: boolean): Schema => {
   
   const sceneProperties: Record<string, Schema> = {
     id: { type: Type.STRING },
     duration: { type: Type.NUMBER },
-    description: { type: Type.STRING, description: "Detailed visual description of the scene. Mention characters by name if they appear." },
+    description: { type: Type.STRING, description: "Detailed visual description of the scene for the image generator. Mention characters by name if they appear." },
+    narration: {
+        type: Type.STRING,
+        description: isCustomAudio
+            ? "What is said in the audio during this scene, as a subtitle. Empty if nothing is said."
+            : "What the narrator says over this scene, as plain spoken prose without camera or style directions. Empty if the scene needs no narrator."
+    },
     charactersInScene: {
         type: Type.ARRAY,
         description: "List of Character IDs present in this scene.",
@@ -41,7 +68,7 @@ const getNormalizedStorySchema = (isCustomAudio: boolean): Schema => {
     }
   };
 
-  const sceneRequired: string[] = ["id", "description", "charactersInScene"];
+  const sceneRequired: string[] = ["id", "description", "narration", "charactersInScene"];
 
   if (isCustomAudio) {
       sceneProperties.startTime = { type: Type.NUMBER };
@@ -62,36 +89,66 @@ const getNormalizedStorySchema = (isCustomAudio: boolean): Schema => {
       sceneRequired.push("duration", "script");
   }
 
-  return {
-    type: Type.OBJECT,
-    properties: {
-      title: { type: Type.STRING, description: "Movie title" },
-      summary: { type: Type.STRING, description: "Short summary" },
-      cast: {
-        type: Type.ARRAY,
-        description: "List of all characters appearing in the movie.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            name: { type: Type.STRING, description: "Name" },
-            description: { type: Type.STRING, description: "Visual appearance description." }
-          },
-          required: ["id", "name", "description"]
-        }
-      },
-      scenes: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: sceneProperties,
-          required: sceneRequired
-        }
+  return { type: Type.OBJECT, properties: sceneProperties, required: sceneRequired };
+};
+
+const getNormalizedStorySchema = (isCustomAudio: boolean): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Movie title" },
+    summary: { type: Type.STRING, description: "Short summary" },
+    language: { type: Type.STRING, description: "BCP-47 tag of the script language, e.g. 'en-US' or 'ru-RU'." },
+    cast: castSchema,
+    scenes: { type: Type.ARRAY, items: getSceneSchema(isCustomAudio) }
+  },
+  required: ["title", "summary", "language", "cast", "scenes"]
+});
+
+// Stage one of text generation: the story's shape, one short entry per scene
+const getOutlineSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Movie title" },
+    summary: { type: Type.STRING, description: "Short summary" },
+    language: { type: Type.STRING, description: "BCP-47 tag of the script language, e.g. 'en-US' or 'ru-RU'." },
+    logline: { type: Type.STRING, description: "The premise in one sentence." },
+    acts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING, description: "What the act accomplishes." }
+        },
+        required: ["title", "summary"]
       }
     },
-    required: ["title", "summary", "cast", "scenes"]
-  };
-};
+    cast: castSchema,
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          act: { type: Type.NUMBER, description: "1-based index into 'acts'." },
+          summary: { type: Type.STRING, description: "What happens, in one or two sentences." },
+          charactersInScene: { type: Type.ARRAY, description: "List of Character IDs present in this scene.", items: { type: Type.STRING } }
+        },
+        required: ["id", "act", "summary", "charactersInScene"]
+      }
+    }
+  },
+  required: ["title", "summary", "language", "logline", "acts", "cast", "scenes"]
+});
+
+// Stage two: full scenes for a slice of the outline
+const getSceneBatchSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    scenes: { type: Type.ARRAY, items: getSceneSchema(false) }
+  },
+  required: ["scenes"]
+});
 
 const getStyleInstructions = (style: VisualStyle): string => {
   const prefix = "VISUAL STYLE:";
@@ -111,303 +168,582 @@ const getStyleInstructions = (style: VisualStyle): string => {
 
 // --- VISUAL GENERATION HELPERS ---
 
-const generateImage = async (prompt: string, aspectRatio: AspectRatio, referenceImages: string[] = []): Promise<string | undefined> => {
+// Provider output, already moved into the asset store, plus the status to record on the
+// scene or line it was requested for
+export interface AssetResult<T> {
+    data?: T;
+    status: AssetStatus;
+}
+
+const describeFailure = (e: unknown): string => (e instanceof Error ? e.message : String(e)) || 'Unknown error';
+
+// Failures are recorded (and can be repaired later) instead of thrown; cancellation propagates
+const requestAsset = async <T>(
+    capability: 'image' | 'speech',
+    task: (signal?: AbortSignal) => Promise<string | undefined>,
+    store: (data: string) => Promise<T>,
+    signal?: AbortSignal
+): Promise<AssetResult<T>> => {
     try {
-        const parts: any[] = [{ text: prompt }];
-        if (referenceImages.length > 0) {
-           parts.push({ inlineData: { mimeType: 'image/jpeg', data: referenceImages[0].split(',')[1] } });
-           parts.push({ text: "Use this image as a strict character reference." });
-        }
-        const finalPrompt = `${prompt} Aspect Ratio: ${aspectRatio}`;
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: finalPrompt }] }
-        });
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
+        const data = await scheduler.run(capability, task, signal);
+        if (data) return { data: await store(data), status: ASSET_OK };
+        return { status: assetFailed(capability === 'image' ? 'The model returned no image' : 'The model returned no audio') };
     } catch (e) {
-        console.error("Image generation failed", e);
+        if (isAbortError(e)) throw e;
+        console.error(capability === 'image' ? "Image generation failed" : "Speech generation failed", e);
+        return { status: assetFailed(describeFailure(e)) };
     }
-    return undefined;
 };
 
+const generateImage = (prompt: string, aspectRatio: AspectRatio, referenceImages: ReferenceImage[] = [], signal?: AbortSignal) =>
+    requestAsset('image', s => getProvider().generateImage({ prompt, aspectRatio, referenceImages, signal: s }), putDataUrlAsset, signal);
+
 // --- AUDIO GENERATION HELPERS ---
 
-export const generateSpeech = async (text: string, voiceName: string): Promise<string | undefined> => {
-  const maxRetries = 3;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName || 'Puck' } } },
-        },
-      });
-      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    } catch (e: any) {
-      if (e.message?.includes('429') || e.status === 429) {
-        await delay((i + 1) * 2000); // Increased backoff
-        continue;
-      }
-      return undefined;
-    }
-  }
-  return undefined;
-};
+const requestSpeech = <T>(text: string, voiceName: string, store: (data: string) => Promise<T>, signal?: AbortSignal) =>
+    requestAsset('speech', s => getProvider().synthesizeSpeech({ text, voice: voiceName || FALLBACK_VOICE, signal: s }), store, signal);
 
-// --- DATA HYDRATION ---
+const storeClip = async (data: string): Promise<AudioClip> => ({
+    assetId: await putBase64Asset(data, PCM_MIME_TYPE),
+    durationMs: pcmClipMs(data)
+});
 
-const hydrateMovieFromNormalized = (normalizedData: any, style: VisualStyle, audioMode: AudioMode, aspectRatio: AspectRatio): Movie => {
-    const castMap = new Map<string, {name: string, description: string}>();
-    if (normalizedData.cast) {
-        normalizedData.cast.forEach((c: any) => castMap.set(c.id, { name: c.name, description: c.description }));
-    }
+// A clip for the movie, kept in the asset store
+export const synthesizeClip = (text: string, voiceName: string, signal?: AbortSignal) =>
+    requestSpeech(text, voiceName, storeClip, signal);
 
-    const scenes: Scene[] = normalizedData.scenes.map((s: any) => {
-        const charactersInScene: Character[] = (s.charactersInScene || []).map((charId: string) => {
-             const castInfo = castMap.get(charId) || { name: 'Unknown', description: '' };
-             return {
-                 id: charId,
-                 name: castInfo.name,
-             } as Character;
-        });
+// Raw base64 PCM for throwaway previews that never become part of a movie
+export const generateSpeech = async (text: string, voiceName: string, signal?: AbortSignal): Promise<string | undefined> =>
+    (await requestSpeech(text, voiceName, async data => data, signal)).data;
+
+// --- DATA HYDRATION ---
 
+// The validated cast merged with what the user set up (voices, reference images).
+// Validation already mapped stray ids, so every id in the scenes resolves here.
+const buildCast = (story: Story, characterConfigs: CharacterConfig[]): CastMember[] =>
+    story.cast.map((c, index) => {
+        const config = characterConfigs.find(conf => conf.id === c.id)
+            || characterConfigs.find(conf => conf.name.trim().toLowerCase() === c.name.toLowerCase());
         return {
-            id: s.id,
-            startTime: s.startTime,
-            endTime: s.endTime,
-            duration: s.duration,
-            description: s.description,
-            characters: charactersInScene,
-            script: s.script || []
-        } as Scene;
+            id: c.id,
+            name: c.name || config?.name || c.id,
+            description: c.description || config?.description || '',
+            voice: config?.voice,
+            referenceImages: config?.referenceImages ? [...config.referenceImages] : [],
+            color: castColor(index)
+        };
     });
 
-    return {
-        title: normalizedData.title,
-        summary: normalizedData.summary,
-        style,
-        audioMode,
-        aspectRatio,
-        scenes
-    };
+const toScene = (s: StoryScene): Scene => ({
+    id: s.id,
+    startTime: s.startTime,
+    endTime: s.endTime,
+    duration: s.duration ?? 0,
+    description: s.description,
+    narration: s.narration || undefined,
+    characterIds: s.charactersInScene,
+    script: s.script.map(line => ({ characterId: line.characterId, text: line.text }))
+});
+
+const hydrateMovieFromStory = (story: Story, style: VisualStyle, audioMode: AudioMode, aspectRatio: AspectRatio, characterConfigs: CharacterConfig[]): Movie => ({
+    title: story.title,
+    summary: story.summary,
+    language: story.language,
+    style,
+    audioMode,
+    aspectRatio,
+    cast: buildCast(story, characterConfigs),
+    scenes: story.scenes.map(toScene)
+});
+
+// Parses and validates one response; what had to be repaired goes to the console
+const readStory = <T>(context: string, text: string, validate: (raw: any) => { value: T; issues: StoryIssue[] }): T => {
+    const parsed = parseStoryJson(text);
+    const validated = validate(parsed.value);
+    reportStoryIssues(context, [...parsed.issues, ...validated.issues]);
+    return validated.value;
 };
 
-export const assignVoices = (movie: Movie, configs: CharacterConfig[]) => {
-    const charMap = new Map<string, string>();
-    configs.forEach(c => { if(c.voice) charMap.set(c.id, c.voice); });
-
-    const guessVoice = (name: string): string => {
-        if (!name) return MALE_VOICES[0];
-        const lower = name.toLowerCase();
-        if (lower.endsWith('а') || lower.endsWith('я') || lower.endsWith('a') || lower.endsWith('ya')) {
-            return FEMALE_VOICES[Math.floor(Math.random() * FEMALE_VOICES.length)];
-        }
-        return MALE_VOICES[Math.floor(Math.random() * MALE_VOICES.length)];
-    };
+const guessGender = (name: string): VoiceOption['gender'] => {
+    const lower = (name || '').trim().toLowerCase();
+    return lower.endsWith('а') || lower.endsWith('я') || lower.endsWith('a') || lower.endsWith('ya') ? 'female' : 'male';
+};
 
-    movie.scenes.forEach(s => {
-        s.characters.forEach(c => {
-            if (charMap.has(c.id)) return;
-            const voice = guessVoice(c.name);
-            charMap.set(c.id, voice);
-        });
+// Gives the narrator and every cast member without a voice one that fits their name.
+// Picks are seeded by movie.voiceSeed and the character id, and distinct voices are preferred,
+// so casting a movie twice gives the same result. Existing assignments are never touched.
+export const assignVoices = (movie: Movie, available: VoiceOption[] = getProvider().voices) => {
+    if (!movie.voiceSeed) movie.voiceSeed = movie.title || 'movie';
+    if (!movie.narratorVoice) movie.narratorVoice = NARRATOR_VOICE;
+
+    const taken = new Set<string>([movie.narratorVoice]);
+    movie.cast.forEach(c => { if (c.voice) taken.add(c.voice); });
+
+    movie.cast.forEach(c => {
+        if (c.voice) return;
+        const pool = available.filter(v => v.gender === guessGender(c.name));
+        const unused = pool.filter(v => !taken.has(v.id));
+        const candidates = unused.length > 0 ? unused : pool.length > 0 ? pool : available;
+        const random = createRandom(`${movie.voiceSeed}:${c.id}`);
+        c.voice = candidates[Math.floor(random() * candidates.length)]?.id || FALLBACK_VOICE;
+        taken.add(c.voice);
     });
-    charMap.set('narrator', NARRATOR_VOICE);
-    return charMap;
+    return getVoiceMap(movie);
+};
+
+// Drops every assignment and casts again from a new seed
+export const recastVoices = (movie: Movie, seed: string): Movie => {
+    const recast: Movie = { ...movie, voiceSeed: seed, narratorVoice: undefined, cast: movie.cast.map(c => ({ ...c, voice: undefined })) };
+    assignVoices(recast);
+    return markRecastClipsStale(movie, recast);
+};
+
+// Voice per speaker id, narrator included
+export const getVoiceMap = (movie: Movie): Map<string, string> => {
+    const voices = new Map<string, string>();
+    movie.cast.forEach(c => voices.set(c.id, c.voice || FALLBACK_VOICE));
+    voices.set(NARRATOR_ID, movie.narratorVoice || NARRATOR_VOICE);
+    return voices;
+};
+
+// Recorded clips whose speaker got a different voice between `previous` and `next` need re-voicing
+export const markRecastClipsStale = (previous: Movie, next: Movie): Movie => {
+    const before = getVoiceMap(previous);
+    const after = getVoiceMap(next);
+    const changed = (id: string) => before.get(id) !== after.get(id);
+    return {
+        ...next,
+        scenes: next.scenes.map(s => ({
+            ...s,
+            narrationStale: s.narrationAudio && changed(NARRATOR_ID) ? true : s.narrationStale,
+            script: s.script.map(l => l.audio && changed(l.characterId) ? { ...l, audioStale: true } : l)
+        }))
+    };
 };
 
 // --- ORCHESTRATORS ---
 
-const enrichScenesWithVisuals = async (movie: Movie, characterConfigs: CharacterConfig[]) => {
-    const allRefs = characterConfigs.filter(c => c.referenceImageData).map(c => c.referenceImageData!);
-    const styleInstruction = getStyleInstructions(movie.style);
+// Style instruction + visual description + characters + aspect ratio, exactly as sent to the image model
+export const buildScenePrompt = (scene: Scene, movie: Pick<Movie, 'style' | 'aspectRatio' | 'cast'>): string => {
+    let prompt = `${getStyleInstructions(movie.style)} Scene: ${scene.description}.`;
     
-    const promises = movie.scenes.map(async (scene) => {
-        let prompt = `${styleInstruction} Scene: ${scene.description}.`;
-        
-        if (scene.characters.length > 0) {
-             const charsInScene = scene.characters.map(c => {
-                 const config = characterConfigs.find(conf => conf.id === c.id);
-                 return config ? `${config.name} (${config.description})` : c.name;
-             }).join(', ');
-             prompt += ` Characters present: ${charsInScene}.`;
-        }
+    const present = getSceneCast(movie, scene);
+    if (present.length > 0) {
+         const charsInScene = present.map(c => c.description ? `${c.name} (${c.description})` : c.name).join(', ');
+         prompt += ` Characters present: ${charsInScene}.`;
+    }
 
-        prompt += ` Aspect Ratio ${movie.aspectRatio}. High quality, detailed.`;
+    prompt += ` Aspect Ratio ${movie.aspectRatio}. High quality, detailed.`;
+    return prompt;
+};
 
-        const bgImage = await generateImage(prompt, movie.aspectRatio, allRefs.length > 0 ? [allRefs[0]] : []);
-        if (bgImage) scene.backgroundImageUrl = bgImage;
+// Reference photos of the cast members present in the scene
+export const getSceneReferenceImages = (scene: Scene, movie: Pick<Movie, 'cast'>): ReferenceImage[] => {
+    const refs: ReferenceImage[] = [];
+    getSceneCast(movie, scene).forEach(c => {
+        (c.referenceImages || []).forEach(dataUrl => refs.push({ label: c.name, dataUrl }));
     });
+    return refs.slice(0, MAX_REFERENCE_IMAGES);
+};
+
+// Records a freshly generated image as the scene's current take
+const applyImageTake = (scene: Scene, imageId: AssetId, prompt: string): Scene => {
+    const takes = [...(scene.imageTakes || [])];
+    if (scene.imageId && !takes.includes(scene.imageId)) takes.push(scene.imageId);
+    if (!takes.includes(imageId)) takes.push(imageId);
+    return { ...scene, imageId, imagePrompt: prompt, imageTakes: takes };
+};
+
+// Each asset job reads the scene back from the movie when its request settles: image and
+// voice jobs for the same scene finish in any order and must not overwrite each other.
+const fillSceneImage = async (movie: Movie, sceneIndex: number, signal?: AbortSignal): Promise<AssetResult<AssetId>> => {
+    const scene = movie.scenes[sceneIndex];
+    // A prompt written during script review wins over the built one until it has produced an image;
+    // after that the prompt follows the scene again
+    const prompt = scene.imagePromptOverride?.trim() || buildScenePrompt(scene, movie);
+    const result = await generateImage(prompt, movie.aspectRatio, getSceneReferenceImages(scene, movie), signal);
+    const current = movie.scenes[sceneIndex];
+    Object.assign(current, result.data ? { ...applyImageTake(current, result.data, prompt), imagePromptOverride: undefined } : { imagePrompt: prompt }, { imageStatus: result.status });
+    return result;
+};
+
+const fillNarration = async (movie: Movie, sceneIndex: number, voices: Map<string, string>, signal?: AbortSignal): Promise<AssetResult<AudioClip>> => {
+    const result = await synthesizeClip(sceneNarration(movie.scenes[sceneIndex]), voices.get(NARRATOR_ID) || NARRATOR_VOICE, signal);
+    const current = movie.scenes[sceneIndex];
+    if (result.data) Object.assign(current, { narrationAudio: result.data, narrationStale: false });
+    current.narrationStatus = result.status;
+    return result;
+};
 
-    await Promise.all(promises);
+const fillLineAudio = async (movie: Movie, sceneIndex: number, lineIndex: number, voices: Map<string, string>, signal?: AbortSignal): Promise<AssetResult<AudioClip>> => {
+    const line = movie.scenes[sceneIndex].script[lineIndex];
+    const result = await synthesizeClip(line.text, voices.get(line.characterId) || FALLBACK_VOICE, signal);
+    if (result.data) Object.assign(line, { audio: result.data, audioStale: false });
+    line.audioStatus = result.status;
+    return result;
+};
+
+// Requests every image and clip the movie lacks, all at once; the scheduler decides how many
+// are in flight per capability, in scene order, so the first scenes finish first. Mutates the movie.
+// The 'script' event hands out the movie once everything it waits for is marked pending: the UI
+// can start playing scenes as soon as they are ready (see isSceneReady).
+const fillMissingAssets = async (movie: Movie, voices: Map<string, string>, { signal, onProgress }: GenerationOptions = {}) => {
+    const missing = findMissingAssets(movie);
+    missing.forEach(asset => {
+        if (asset.kind === 'image') movie.scenes[asset.sceneIndex].imageStatus = ASSET_PENDING;
+        else if (asset.kind === 'narration') movie.scenes[asset.sceneIndex].narrationStatus = ASSET_PENDING;
+        else movie.scenes[asset.sceneIndex].script[asset.lineIndex].audioStatus = ASSET_PENDING;
+    });
+    onProgress?.({ type: 'script', movie });
+
+    await Promise.all(missing.map(async asset => {
+        if (asset.kind === 'image') {
+            const result = await fillSceneImage(movie, asset.sceneIndex, signal);
+            onProgress?.({ type: 'image', sceneIndex: asset.sceneIndex, ok: !!result.data, imageId: result.data });
+        } else if (asset.kind === 'narration') {
+            const result = await fillNarration(movie, asset.sceneIndex, voices, signal);
+            onProgress?.({ type: 'voice', sceneIndex: asset.sceneIndex, ok: !!result.data });
+        } else {
+            const result = await fillLineAudio(movie, asset.sceneIndex, asset.lineIndex, voices, signal);
+            onProgress?.({ type: 'voice', sceneIndex: asset.sceneIndex, lineIndex: asset.lineIndex, ok: !!result.data });
+        }
+    }));
     return movie;
 };
 
-// NEW: Pre-generate all audio
-const enrichScenesWithAudio = async (movie: Movie, voices: Map<string, string>) => {
-    if (movie.audioMode !== 'gemini') return movie;
+// --- STORY WRITING ---
+
+const describeCharacters = (characters: { id: string; name: string; description: string }[]) =>
+    characters.map(c => `${c.name} (ID: ${c.id}, Desc: ${c.description})`).join(', ');
+
+const describeOutlineScene = (scene: OutlineScene) =>
+    `${scene.id} [Act ${scene.act}]: ${scene.summary} (Characters: ${scene.charactersInScene.join(', ') || 'none'})`;
+
+// Extra instructions for target-runtime movies; empty otherwise
+const describePacing = (length: MovieLength): string => {
+    if (length.mode !== 'duration') return "";
+    const plan = planRuntime(length.targetMs);
+    return `TARGET RUNTIME: ${Math.round(length.targetMs / 1000)} seconds in total. Each scene is read aloud in about ${Math.round(plan.sceneMs / 1000)} seconds: `
+        + `set its 'duration' in seconds and keep its narration and dialogue together under ${plan.speechChars} characters.`;
+};
 
-    // Generate Narration for scenes
-    for (const scene of movie.scenes) {
-        if (scene.description) {
-            const audio = await generateSpeech(scene.description, voices.get('narrator') || 'Fenrir');
-            if (audio) scene.narrationAudioData = audio;
+const writeOutline = async (
+    prompt: string,
+    style: VisualStyle,
+    length: MovieLength,
+    aspectRatio: AspectRatio,
+    characterConfigs: CharacterConfig[],
+    signal?: AbortSignal
+): Promise<StoryOutline> => {
+    const characterContext = characterConfigs.length > 0 ? `Include these characters: ${describeCharacters(characterConfigs)}.` : "";
+    const sceneCount = length.mode === 'duration' ? planRuntime(length.targetMs).sceneCount : length.sceneCount;
+
+    const outlineText = await scheduler.run('text', s => getProvider().generateStory({
+        signal: s,
+        prompt: `Write a movie outline JSON.
+        Prompt: "${prompt}".
+        Scene Count: ${sceneCount}.
+        Style: ${style}. Ratio: ${aspectRatio}.
+        ${characterContext}
+        ${describePacing(length)}
+        
+        IMPORTANT RULES:
+        1. DETECT THE LANGUAGE of the Prompt. Every text field MUST BE in that detected language.
+        2. Set 'language' to the BCP-47 tag of that language (e.g. 'en-US', 'ru-RU').
+        3. Give a one-sentence 'logline' and split the story into 'acts' (usually three).
+        4. Provide a 'cast' list, then exactly ${sceneCount} 'scenes' with unique ids.
+        5. Keep each scene 'summary' short: the scenes are written out in full later.
+        `,
+        schema: getOutlineSchema(),
+        systemInstruction: "You are a multilingual screenwriter. You output strict JSON. You adapt to the language of the user's prompt.",
+        maxOutputTokens: 8192
+    }), signal);
+
+    return readStory('Outline', outlineText, raw => validateOutline(raw, { characterConfigs }));
+};
+
+// Writes out one slice of the outline. The full outline goes along so every batch knows where
+// the story comes from and where it is heading.
+const expandSceneBatch = async (outline: StoryOutline, batch: OutlineScene[], previous: StoryScene | undefined, style: VisualStyle, pacing: string, signal?: AbortSignal): Promise<StoryScene[]> => {
+    const acts = outline.acts.map((a, i) => `Act ${i + 1} "${a.title}": ${a.summary}`).join('\n');
+    const continuity = previous ? `The previous scene ended like this: ${previous.description}` : 'These are the opening scenes.';
+
+    const batchText = await scheduler.run('text', s => getProvider().generateStory({
+        signal: s,
+        prompt: `Write these scenes of the movie "${outline.title}" in full, as JSON.
+        Prompt: "${outline.logline}".
+        Scene Count: ${batch.length}.
+        Style: ${style}. Language: ${outline.language || 'the language of the outline'}.
+        Cast: ${describeCharacters(outline.cast)}.
+        ${pacing}
+        
+        ACTS:
+        ${acts}
+        
+        FULL OUTLINE:
+        ${outline.scenes.map(describeOutlineScene).join('\n')}
+        
+        ${continuity}
+        
+        WRITE ONLY THESE SCENES, in this order, keeping their ids:
+        ${batch.map(describeOutlineScene).join('\n')}
+        
+        IMPORTANT RULES:
+        1. Write every text field in the outline's language.
+        2. Each 'description' must be extremely visual and detailed: it is only used to draw the scene, never read out.
+        3. 'narration' is what the narrator says aloud over the scene. Leave it empty when the dialogue carries the scene.
+        4. Use only the cast IDs above in 'charactersInScene' and as 'characterId'.
+        `,
+        schema: getSceneBatchSchema(),
+        systemInstruction: "You are a multilingual screenwriter. You output strict JSON.",
+        maxOutputTokens: 8192
+    }), signal);
+
+    const parsed = parseStoryJson(batchText);
+    const issues: StoryIssue[] = [...parsed.issues];
+    const written: any[] = Array.isArray(parsed.value?.scenes) ? parsed.value.scenes : [];
+    // Matched by id first; a renamed scene then takes the written one at its position, or the
+    // first one left, so no written scene is used twice. Each is checked against the outline's cast.
+    const unmatched = new Set(written.filter(w => !batch.some(planned => planned.id === w?.id)));
+    const scenes = batch.map((planned, i) => {
+        let raw = written.find(w => w?.id === planned.id);
+        if (!raw) {
+            raw = unmatched.has(written[i]) ? written[i] : unmatched.values().next().value;
+            unmatched.delete(raw);
         }
-        await delay(500); // Rate limit protection
-    }
+        if (!raw || !raw.description) throw new Error(`Scene ${planned.id} is missing from the response.`);
+        const charactersInScene = raw.charactersInScene?.length ? raw.charactersInScene : planned.charactersInScene;
+        const scene = validateStandaloneScene({ ...raw, id: planned.id, charactersInScene }, outline.cast);
+        issues.push(...scene.issues);
+        return scene.value;
+    });
+    reportStoryIssues(`Scenes ${batch[0].id}-${batch[batch.length - 1].id}`, issues);
+    return scenes;
+};
 
-    // Generate Dialogue
-    for (const scene of movie.scenes) {
-        for (const line of scene.script) {
-            const voice = voices.get(line.characterId) || 'Puck';
-            const audio = await generateSpeech(line.text, voice);
-            if (audio) line.audioData = audio;
-            await delay(500); // Rate limit protection
+const writeSceneBatch = async (outline: StoryOutline, batch: OutlineScene[], previous: StoryScene | undefined, style: VisualStyle, pacing: string, signal?: AbortSignal): Promise<StoryScene[]> => {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+        try {
+            return await expandSceneBatch(outline, batch, previous, style, pacing, signal);
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            lastError = e;
+            console.warn(`Scene batch ${batch[0].id}-${batch[batch.length - 1].id} failed (attempt ${attempt})`, e);
         }
     }
-    return movie;
+    throw lastError;
+};
+
+// Scenes whose estimated speech runs past their planned share are rewritten shorter before
+// anything is voiced. A scene that can't be tightened stays as written; the editor flags it.
+const tightenScene = async (scene: Scene, movie: Movie, plannedMs: number, signal?: AbortSignal): Promise<Scene> => {
+    const narration = sceneNarration(scene);
+    const maxChars = speechCharsFor(plannedMs, (narration ? 1 : 0) + scene.script.length);
+    try {
+        const text = await scheduler.run('text', s => getProvider().generateStory({
+            signal: s,
+            prompt: `Shorten this movie scene so it can be read aloud in ${Math.round(plannedMs / 1000)} seconds.
+            Narration and dialogue together must stay under ${maxChars} characters.
+            Keep the language, the story beat, the id and the characters (IDs: ${scene.characterIds.join(', ') || 'none'}).
+            Keep the 'description' as it is; shorten the 'narration', cut or merge dialogue lines rather than rushing them.
+            
+            SCENE:
+            ${JSON.stringify({ id: scene.id, description: scene.description, narration, script: scene.script.map(l => ({ characterId: l.characterId, text: l.text })) })}`,
+            schema: getSceneSchema(false),
+            systemInstruction: "You are a script editor. You output strict JSON in the language of the scene.",
+            maxOutputTokens: 4096
+        }), signal);
+        const tightened = readStory(`Tightened scene ${scene.id}`, text, raw => validateStandaloneScene({ ...raw, id: scene.id }, movie.cast));
+        // A muted scene keeps its narration text as it was
+        return { ...scene, narration: scene.noNarrator ? scene.narration : tightened.narration || undefined, script: tightened.script };
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn(`Scene ${scene.id} could not be tightened`, e);
+        return scene;
+    }
+};
+
+const tightenOverLongScenes = async (movie: Movie, signal?: AbortSignal): Promise<Movie> => {
+    const report = getRuntimeReport(movie);
+    const scenes = await Promise.all(movie.scenes.map((scene, i) => {
+        const { overLong, plannedMs } = report.scenes[i];
+        return overLong && plannedMs ? tightenScene(scene, movie, plannedMs, signal) : scene;
+    }));
+    return { ...movie, scenes };
 };
 
 // --- EXPORTED FUNCTIONS ---
 
-export const generateMovie = async (
+// Text only: the screenplay with its cast and voices, no assets yet. Nothing is spent on images
+// or speech until produceMovie runs on it, so the script can be reviewed and edited first.
+export const generateScript = async (
   prompt: string, 
   style: VisualStyle, 
-  sceneCount: SceneCount,
+  length: MovieLength,
   audioMode: AudioMode,
   aspectRatio: AspectRatio,
-  characterConfigs: CharacterConfig[]
+  characterConfigs: CharacterConfig[],
+  options: GenerationOptions = {}
 ): Promise<Movie> => {
-  const styleInstruction = getStyleInstructions(style);
-  
-  let characterContext = "";
-  if (characterConfigs.length > 0) {
-    characterContext = `Include these characters: ${characterConfigs.map(c => `${c.name} (ID: ${c.id}, Desc: ${c.description})`).join(', ')}.`;
-  }
+  const { signal, onProgress } = options;
 
-  // STEP 1: Generate Structure
-  const response = await genAI.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Write a movie script JSON.
-    Prompt: "${prompt}".
-    Scene Count: ${sceneCount}.
-    Style: ${style}. Ratio: ${aspectRatio}.
-    ${characterContext}
-    
-    IMPORTANT RULES:
-    1. DETECT THE LANGUAGE of the Prompt. The 'description', 'summary', 'name', and 'text' fields MUST BE in that detected language.
-    2. Provide a 'cast' list first, then 'scenes'.
-    3. For each scene, provide a 'description' that is extremely visual and detailed.
-    4. List characters present in 'charactersInScene'.
-    `,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: getNormalizedStorySchema(false),
-      systemInstruction: "You are a multilingual screenwriter. You output strict JSON. You adapt to the language of the user's prompt.",
-      maxOutputTokens: 8192
-    }
-  });
+  // Outline first, then the scenes in batches; each batch sees the outline and the scene before it
+  const outline = await writeOutline(prompt, style, length, aspectRatio, characterConfigs, signal);
+  onProgress?.({ type: 'outline', sceneCount: outline.scenes.length });
 
-  const normalizedData = safeJsonParse<any>(response.text);
-  const movieData = hydrateMovieFromNormalized(normalizedData, style, audioMode, aspectRatio);
-  const voices = assignVoices(movieData, characterConfigs);
-
-  // STEP 2: Generate Visuals & Audio Parallel-ish
-  // We await visuals first, then audio, to ensure we don't hit rate limits too hard simultaneously
-  await enrichScenesWithVisuals(movieData, characterConfigs);
-  
-  // STEP 3: Generate Audio (if needed)
-  if (audioMode === 'gemini') {
-      await enrichScenesWithAudio(movieData, voices);
+  const scenes: StoryScene[] = [];
+  for (let start = 0; start < outline.scenes.length; start += SCENE_BATCH_SIZE) {
+    const batch = outline.scenes.slice(start, start + SCENE_BATCH_SIZE);
+    scenes.push(...await writeSceneBatch(outline, batch, scenes[scenes.length - 1], style, describePacing(length), signal));
+    onProgress?.({ type: 'scenes', count: batch.length });
   }
 
+  const story = validateStory({ ...outline, scenes }, { characterConfigs });
+  reportStoryIssues('Story', story.issues);
+  let movieData = hydrateMovieFromStory(story.value, style, audioMode, aspectRatio, characterConfigs);
+  if (length.mode === 'duration') {
+    movieData.targetDurationMs = length.targetMs;
+    movieData.scenes = fitSceneDurations(movieData.scenes, length.targetMs);
+    movieData = await tightenOverLongScenes(movieData, signal);
+  }
+  assignVoices(movieData);
   return movieData;
 };
 
+// Images and voices for a script from generateScript, edited or not. Image prompts and voices
+// are derived from the script as it is now; members added to the cast get a voice here.
+export const produceMovie = async (script: Movie, options: GenerationOptions = {}): Promise<Movie> => {
+  const movie = { ...snapshotMovie(script), cast: script.cast.map(c => ({ ...c })) };
+  const voices = assignVoices(movie);
+
+  // Visuals and audio side by side; the scheduler keeps each capability within its limits
+  return await fillMissingAssets(movie, voices, options);
+};
+
+export const generateMovie = async (
+  prompt: string, 
+  style: VisualStyle, 
+  length: MovieLength,
+  audioMode: AudioMode,
+  aspectRatio: AspectRatio,
+  characterConfigs: CharacterConfig[],
+  options: GenerationOptions = {}
+): Promise<Movie> =>
+  produceMovie(await generateScript(prompt, style, length, audioMode, aspectRatio, characterConfigs, options), options);
+
 export const generateMovieFromAudio = async (
     audioBase64: string,
     style: VisualStyle,
     aspectRatio: AspectRatio,
-    characterConfigs: CharacterConfig[]
+    characterConfigs: CharacterConfig[],
+    audioDurationSec: number | undefined,
+    options: GenerationOptions = {}
 ): Promise<Movie> => {
+    const { signal } = options;
     const styleInstruction = getStyleInstructions(style);
     
     // STEP 1: Analysis (Structure)
-    const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: [
-            { inlineData: { mimeType: "audio/mp3", data: audioBase64 } },
-            {
-                text: `
+    const analysisText = await scheduler.run('text', s => getProvider().analyzeAudio({
+        signal: s,
+        audioBase64,
+        mimeType: "audio/mp3",
+        prompt: `
                 Analyze this audio. Split into visual scenes (max 20).
+                ${audioDurationSec ? `The audio is ${Math.round(audioDurationSec)} seconds long; scene times must stay within it and must not overlap.` : ''}
                 Style: ${styleInstruction}.
                 ${characterConfigs.length > 0 ? 'Detect these characters: ' + characterConfigs.map(c=>c.name).join(', ') : ''}
                 
                 Return JSON with 'cast' and 'scenes'. 
-                DETECT LANGUAGE of the audio. The 'description' and text MUST be in the same language as the audio.
+                DETECT LANGUAGE of the audio. The 'description' and 'narration' MUST be in the same language as the audio.
+                Set 'language' to its BCP-47 tag (e.g. 'en-US', 'ru-RU').
                 The 'description' must be a detailed prompt for an image generator.
-                `
-            }
-        ],
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: getNormalizedStorySchema(true),
-            systemInstruction: "Video editor assistant. Output strict JSON in the language of the audio.",
-            maxOutputTokens: 8192
-        }
-    });
-
-    const normalizedData = safeJsonParse<any>(response.text);
-    const movieData = hydrateMovieFromNormalized(normalizedData, style, 'custom', aspectRatio);
+                The 'narration' is what is said during the scene, for the subtitles.
+                `,
+        schema: getNormalizedStorySchema(true),
+        systemInstruction: "Video editor assistant. Output strict JSON in the language of the audio.",
+        maxOutputTokens: 8192
+    }), signal);
+
+    const story = readStory('Audio analysis', analysisText, raw => validateStory(raw, { isCustomAudio: true, audioDurationSec, characterConfigs }));
+    const movieData = hydrateMovieFromStory(story, style, 'custom', aspectRatio, characterConfigs);
+    const voices = assignVoices(movieData);
     
-    movieData.customAudioData = audioBase64;
+    movieData.customAudioId = await putBase64Asset(audioBase64, 'audio/mpeg');
 
-    // STEP 2: Visuals
-    return await enrichScenesWithVisuals(movieData, characterConfigs);
+    // STEP 2: Visuals (custom audio needs no clips)
+    return await fillMissingAssets(movieData, voices, options);
 }
 
-export const generateSceneFromPrompt = async (prompt: string, currentMovie: Movie): Promise<Scene> => {
+export const generateSceneFromPrompt = async (prompt: string, currentMovie: Movie, signal?: AbortSignal): Promise<Scene> => {
     const singleSceneSchema: Schema = {
         type: Type.OBJECT,
         properties: {
             id: { type: Type.STRING },
             duration: { type: Type.NUMBER },
-            description: { type: Type.STRING },
+            description: { type: Type.STRING, description: "Visual description for the image generator." },
+            narration: { type: Type.STRING, description: "What the narrator says over the scene; empty for none." },
+            charactersInScene: { type: Type.ARRAY, items: { type: Type.STRING } },
             script: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { characterId: { type: Type.STRING }, text: { type: Type.STRING } } } }
         }
     };
 
-    const sceneResponse = await genAI.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Generate ONE scene. Context: ${currentMovie.title}. Style: ${currentMovie.style}. Prompt: "${prompt}".
+    const castContext = currentMovie.cast.length > 0
+        ? `Existing cast (reuse these IDs): ${currentMovie.cast.map(c => `${c.name} (ID: ${c.id}, Desc: ${c.description})`).join(', ')}.`
+        : '';
+
+    const sceneText = await scheduler.run('text', s => getProvider().generateStory({
+        signal: s,
+        prompt: `Generate ONE scene. Context: ${currentMovie.title}. Style: ${currentMovie.style}. Prompt: "${prompt}".
+        ${castContext}
+        List the IDs of the characters present in 'charactersInScene'.
         Detect language of the prompt and use it for output.`,
-        config: { 
-          responseMimeType: "application/json", 
-          responseSchema: singleSceneSchema,
-          maxOutputTokens: 8192
-        }
-    });
+        schema: singleSceneSchema,
+        maxOutputTokens: 8192
+    }), signal);
 
-    const scene = safeJsonParse<Scene>(sceneResponse.text);
+    // Ids resolve through the cast (speakers count as present too) and never clash with existing scenes
+    const scene = toScene(readStory('New scene', sceneText, raw => validateStandaloneScene(raw, currentMovie.cast, currentMovie.scenes.map(s => s.id))));
 
     // Generate Image
-    const fullPrompt = `${getStyleInstructions(currentMovie.style)} Scene: ${scene.description}. Aspect Ratio ${currentMovie.aspectRatio}.`;
-    const bgImage = await generateImage(fullPrompt, currentMovie.aspectRatio);
-    if (bgImage) scene.backgroundImageUrl = bgImage;
+    const fullPrompt = buildScenePrompt(scene, currentMovie);
+    scene.imagePrompt = fullPrompt;
+    const bgImage = await generateImage(fullPrompt, currentMovie.aspectRatio, getSceneReferenceImages(scene, currentMovie), signal);
+    if (bgImage.data) Object.assign(scene, applyImageTake(scene, bgImage.data, fullPrompt));
+    scene.imageStatus = bgImage.status;
     
     // Generate Audio if Gemeni mode
     if (currentMovie.audioMode === 'gemini') {
-         if (scene.description) {
-             scene.narrationAudioData = await generateSpeech(scene.description, 'Fenrir');
+         if (sceneNarration(scene)) {
+             const narration = await synthesizeClip(sceneNarration(scene), getVoiceMap(currentMovie).get(NARRATOR_ID) || NARRATOR_VOICE, signal);
+             scene.narrationAudio = narration.data;
+             scene.narrationStatus = narration.status;
          }
-         // Note: We are not auto-generating dialogue audio here for single scene edits to save time/tokens, 
-         // but could be added if needed.
+         // Note: We are not auto-generating dialogue audio here for single scene edits to save time/tokens;
+         // those lines count as missing and are picked up by repairMovie.
     }
     
-    scene.characters = []; 
     return scene;
-}
\ No newline at end of file
+}
+
+// Regenerates one scene's background. The previous image stays available as a take;
+// on failure the scene comes back unchanged apart from a failed imageStatus.
+export const regenerateSceneImage = async (
+    scene: Scene,
+    movie: Movie,
+    promptOverride?: string,
+    signal?: AbortSignal
+): Promise<Scene> => {
+    const prompt = promptOverride?.trim() || buildScenePrompt(scene, movie);
+    const bgImage = await generateImage(prompt, movie.aspectRatio, getSceneReferenceImages(scene, movie), signal);
+    if (!bgImage.data) return { ...scene, imageStatus: bgImage.status };
+    return { ...applyImageTake(scene, bgImage.data, prompt), imageStatus: bgImage.status };
+};
+
+// Re-requests only what the movie lacks: failed or never-generated images and clips, and
+// clips gone stale after an edit. Works on a copy, so it applies to reloaded projects as well;
+// reports through the same progress events as a fresh generation.
+export const repairMovie = async (movie: Movie, options: GenerationOptions = {}): Promise<Movie> => {
+    const repaired = snapshotMovie(movie);
+    return await fillMissingAssets(repaired, getVoiceMap(repaired), options);
+};
\ No newline at end of file
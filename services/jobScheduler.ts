@@ -0,0 +1,149 @@
+// Runs provider calls with a concurrency limit per capability, a global start-rate limit,
+// and retries with exponential backoff on rate-limit (429) and server (5xx) errors.
+// Every job can be cancelled through an AbortSignal; cancelled jobs reject with an AbortError.
+
+export type JobCapability = 'text' | 'image' | 'speech';
+
+export interface JobSchedulerConfig {
+  concurrency: Record<JobCapability, number>;
+  maxRetries: number;
+  baseDelayMs: number;    // first backoff; doubles on every retry
+  maxDelayMs: number;
+  minIntervalMs: number;  // minimum spacing between any two request starts
+}
+
+export interface JobScheduler {
+  run<T>(capability: JobCapability, task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: JobSchedulerConfig = {
+  concurrency: { text: 1, image: 3, speech: 2 },
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  minIntervalMs: 250
+};
+
+// --- ERRORS ---
+
+export const createAbortError = () => new DOMException('Generation cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown): boolean =>
+  (e instanceof Error || e instanceof DOMException) && e.name === 'AbortError';
+
+const getStatus = (e: any): number | undefined => {
+  const status = e?.status ?? e?.code ?? e?.response?.status;
+  if (typeof status === 'number') return status;
+  const match = String(e?.message || '').match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isRetryableError = (e: unknown): boolean => {
+  if (isAbortError(e)) return false;
+  const status = getStatus(e);
+  if (status === 429 || (status !== undefined && status >= 500 && status < 600)) return true;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(String((e as any)?.message || ''));
+};
+
+// --- HELPERS ---
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Rejects as soon as the signal fires, even if the underlying request can't be interrupted
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// --- SCHEDULER ---
+
+export const createJobScheduler = (overrides: Partial<JobSchedulerConfig> = {}): JobScheduler => {
+  const config: JobSchedulerConfig = {
+    ...DEFAULT_SCHEDULER_CONFIG,
+    ...overrides,
+    concurrency: { ...DEFAULT_SCHEDULER_CONFIG.concurrency, ...overrides.concurrency }
+  };
+
+  const active: Record<JobCapability, number> = { text: 0, image: 0, speech: 0 };
+  const waiting: Record<JobCapability, (() => void)[]> = { text: [], image: [], speech: [] };
+  let nextStartAt = 0;
+
+  // Resolves once a slot for `capability` is free; the caller must call release() afterwards
+  const acquire = (capability: JobCapability, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    if (active[capability] < config.concurrency[capability]) {
+      active[capability]++;
+      return resolve();
+    }
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      active[capability]++;
+      resolve();
+    };
+    const onAbort = () => {
+      waiting[capability] = waiting[capability].filter(g => g !== grant);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting[capability].push(grant);
+  });
+
+  const release = (capability: JobCapability) => {
+    active[capability]--;
+    waiting[capability].shift()?.();
+  };
+
+  // Spaces request starts across all capabilities by at least minIntervalMs
+  const throttle = (signal?: AbortSignal) => {
+    const now = Date.now();
+    const startAt = Math.max(now, nextStartAt);
+    nextStartAt = startAt + config.minIntervalMs;
+    return sleep(startAt - now, signal);
+  };
+
+  const run = async <T>(capability: JobCapability, task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await acquire(capability, signal);
+    let request: Promise<T> | undefined; // the latest attempt
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await throttle(signal);
+        try {
+          request = task(signal);
+          return await raceAbort(request, signal);
+        } catch (e) {
+          if (signal?.aborted) throw createAbortError();
+          if (attempt >= config.maxRetries || !isRetryableError(e)) throw e;
+          // Jitter keeps parallel jobs from retrying in lockstep
+          const backoff = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+          await sleep(backoff / 2 + Math.random() * backoff / 2, signal);
+        }
+      }
+    } finally {
+      // Only a cancel returns before the attempt settles. A request the provider can't interrupt
+      // keeps its slot until it does, so the limits hold after a cancel too.
+      if (signal?.aborted && request) {
+        request.then(() => release(capability), () => release(capability));
+      } else {
+        release(capability);
+      }
+    }
+  };
+
+  return { run };
+};
@@ -0,0 +1,209 @@
+import { Movie, CharacterConfig, CastMember, AssetId, AudioClip } from "../types";
+import { downloadBlob, toFileName } from "../utils/download";
+import { castColor, NARRATOR_ID } from "../utils/cast";
+import { InlineData, parseDataUrl } from "../utils/dataUrl";
+import { decodeBase64 } from "../utils/audioUtils";
+import { pcmClipMs } from "../utils/timeline";
+import { hashBytes, putBase64Asset, getAssetInlineData, PCM_MIME_TYPE } from "./assetStore";
+
+// Bump this whenever the shape of the saved data changes and add a matching
+// entry to MIGRATIONS that upgrades the previous version.
+export const PROJECT_FORMAT = 'aicinema';
+export const PROJECT_VERSION = 5;
+export const PROJECT_EXTENSION = '.aicinema';
+
+export interface ProjectBundle {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  movie: Movie;
+  characters: CharacterConfig[]; // The setup form's characters; the movie keeps its own cast
+  // Binary assets the movie references, for files that leave the browser. Library saves leave
+  // this out: their assets are already in the asset store.
+  assets?: Record<AssetId, InlineData>;
+}
+
+export interface ProjectData {
+  movie: Movie;
+  characters: CharacterConfig[];
+}
+
+// --- MIGRATIONS ---
+// MIGRATIONS[n] upgrades a bundle of version n to version n + 1.
+
+// Moves one inline base64 payload into the bundle's asset table and returns its id
+const embedInlineAsset = async (assets: Record<AssetId, InlineData>, asset: InlineData): Promise<AssetId> => {
+  const id = await hashBytes(decodeBase64(asset.data));
+  assets[id] = asset;
+  return id;
+};
+
+const MIGRATIONS: Record<number, (bundle: any) => any | Promise<any>> = {
+  // v0: a bare Movie object (e.g. copied out of dev tools) without any envelope
+  0: (movie: any) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date().toISOString(),
+    movie,
+    characters: [],
+    voices: {}
+  }),
+  // v1 -> v2: a single referenceImageData per character became a referenceImages list
+  1: (bundle: any) => ({
+    ...bundle,
+    version: 2,
+    characters: (bundle.characters || []).map(({ referenceImageData, ...character }: any) => ({
+      ...character,
+      referenceImages: referenceImageData ? [referenceImageData] : []
+    }))
+  }),
+  // v2 -> v3: scenes carried {id, name} copies of their characters; the movie now owns the cast
+  // (absorbing the setup characters' details and the separate voice map) and scenes keep ids
+  2: ({ voices = {}, ...bundle }: any) => {
+    const configs: CharacterConfig[] = bundle.characters || [];
+    const cast: CastMember[] = [];
+    const add = (id: string, name?: string) => {
+      if (!id || id === NARRATOR_ID || cast.some(c => c.id === id)) return;
+      const config = configs.find(c => c.id === id);
+      cast.push({
+        id,
+        name: name || config?.name || id,
+        description: config?.description || '',
+        voice: voices[id] || config?.voice,
+        referenceImages: config?.referenceImages || [],
+        color: castColor(cast.length)
+      });
+    };
+    const scenes = (bundle.movie.scenes || []).map(({ characters = [], ...scene }: any) => {
+      characters.forEach((c: any) => add(c.id, c.name));
+      (scene.script || []).forEach((line: any) => add(line.characterId));
+      return { ...scene, characterIds: characters.map((c: any) => c.id) };
+    });
+    return { ...bundle, version: 3, movie: { ...bundle.movie, cast, scenes } };
+  },
+  // v3 -> v4: images (data URLs) and clips (base64 PCM) were stored inline; the movie now holds
+  // content-addressed ids and the bytes travel in the bundle's asset table
+  3: async (bundle: any) => {
+    const assets: Record<AssetId, InlineData> = { ...bundle.assets };
+    const image = async (dataUrl?: string) => {
+      const parsed = dataUrl ? parseDataUrl(dataUrl) : undefined;
+      return parsed ? embedInlineAsset(assets, parsed) : undefined;
+    };
+    const clip = async (data?: string): Promise<AudioClip | undefined> =>
+      data ? { assetId: await embedInlineAsset(assets, { mimeType: PCM_MIME_TYPE, data }), durationMs: pcmClipMs(data) } : undefined;
+
+    const { customAudioData, ...movie } = bundle.movie;
+    const scenes = await Promise.all((movie.scenes || []).map(async ({ backgroundImageUrl, imageTakes, narrationAudioData, ...scene }: any) => ({
+      ...scene,
+      imageId: await image(backgroundImageUrl),
+      imageTakes: imageTakes ? (await Promise.all(imageTakes.map(image))).filter(Boolean) : undefined,
+      narrationAudio: await clip(narrationAudioData),
+      script: await Promise.all((scene.script || []).map(async ({ audioData, ...line }: any) => ({ ...line, audio: await clip(audioData) })))
+    })));
+    const customAudioId = customAudioData ? await embedInlineAsset(assets, { mimeType: 'audio/mpeg', data: customAudioData }) : undefined;
+    return { ...bundle, version: 4, assets, movie: { ...movie, customAudioId, scenes } };
+  },
+  // v4 -> v5: the description was both the image prompt and the narrator's text; it stays the
+  // visual part and the narrator keeps reading what it read before
+  4: (bundle: any) => ({
+    ...bundle,
+    version: 5,
+    movie: {
+      ...bundle.movie,
+      scenes: (bundle.movie.scenes || []).map((scene: any) => ({ ...scene, narration: scene.narration ?? scene.description }))
+    }
+  })
+};
+
+const detectVersion = (raw: any): number => {
+  if (raw && raw.format === PROJECT_FORMAT && typeof raw.version === 'number') return raw.version;
+  if (raw && Array.isArray(raw.scenes)) return 0;
+  throw new Error("Not an AI Cinema project file.");
+};
+
+export const migrateProjectBundle = async (raw: any): Promise<ProjectBundle> => {
+  let version = detectVersion(raw);
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (v${version}). Please update the app.`);
+  }
+
+  let bundle = raw;
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration available from project v${version}.`);
+    bundle = await migrate(bundle);
+    version = bundle.version;
+  }
+
+  if (!bundle.movie || !Array.isArray(bundle.movie.scenes)) {
+    throw new Error("Project file is missing movie data.");
+  }
+  return bundle as ProjectBundle;
+};
+
+// --- SERIALIZATION ---
+
+export const createProjectBundle = ({ movie, characters }: ProjectData): ProjectBundle => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  movie,
+  characters
+});
+
+export const bundleToProjectData = (bundle: ProjectBundle): ProjectData => ({
+  movie: bundle.movie,
+  characters: bundle.characters || []
+});
+
+// Every asset id the movie references
+export const collectAssetIds = (movie: Movie): AssetId[] => {
+  const ids = new Set<AssetId>();
+  if (movie.customAudioId) ids.add(movie.customAudioId);
+  movie.scenes.forEach(scene => {
+    if (scene.imageId) ids.add(scene.imageId);
+    (scene.imageTakes || []).forEach(id => ids.add(id));
+    if (scene.narrationAudio) ids.add(scene.narrationAudio.assetId);
+    scene.script.forEach(line => { if (line.audio) ids.add(line.audio.assetId); });
+  });
+  return Array.from(ids);
+};
+
+// A self-contained bundle for a file: referenced assets are copied in from the store
+const embedBundleAssets = async (bundle: ProjectBundle): Promise<ProjectBundle> => {
+  const assets: Record<AssetId, InlineData> = {};
+  for (const id of collectAssetIds(bundle.movie)) {
+    const asset = await getAssetInlineData(id);
+    if (asset) assets[id] = asset;
+  }
+  return { ...bundle, assets };
+};
+
+// Moves embedded assets into the asset store and returns the bundle without them
+export const importBundleAssets = async ({ assets, ...bundle }: ProjectBundle): Promise<ProjectBundle> => {
+  for (const asset of Object.values(assets || {})) {
+    await putBase64Asset(asset.data, asset.mimeType);
+  }
+  return bundle;
+};
+
+export const parseProjectFile = async (text: string): Promise<ProjectData> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Project file is not valid JSON.");
+  }
+  return bundleToProjectData(await importBundleAssets(await migrateProjectBundle(raw)));
+};
+
+export const downloadProject = async (data: ProjectData) => {
+  const bundle = await embedBundleAssets(createProjectBundle(data));
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  downloadBlob(blob, `${toFileName(data.movie.title)}${PROJECT_EXTENSION}`);
+};
+
+export const readProjectFile = async (file: File): Promise<ProjectData> => {
+  const text = await file.text();
+  return parseProjectFile(text);
+};
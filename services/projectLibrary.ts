@@ -0,0 +1,132 @@
+import { ProjectData, ProjectBundle, createProjectBundle, migrateProjectBundle, bundleToProjectData, importBundleAssets, collectAssetIds } from "./projectFile";
+import { openLibraryDb, promisify, transactionDone, META_STORE, BUNDLE_STORE } from "./libraryDb";
+import { getAssetUrl, deleteAssetsExcept } from "./assetStore";
+import { AssetId } from "../types";
+
+// Lightweight record used by the gallery; the heavy bundle lives in its own store
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  summary: string;
+  sceneCount: number;
+  thumbnail?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const newProjectId = () => (crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+// Downscale the first scene image so the gallery doesn't hold full-size images
+const createThumbnail = (imageUrl?: string): Promise<string | undefined> => {
+  if (!imageUrl) return Promise.resolve(undefined);
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const width = 320;
+      const height = Math.round(width * (img.naturalHeight / img.naturalWidth)) || 180;
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(undefined);
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = imageUrl;
+  });
+};
+
+const writeProject = async (id: string, bundle: ProjectBundle, createdAt?: number): Promise<ProjectSummary> => {
+  const movie = bundle.movie;
+  const summary: ProjectSummary = {
+    id,
+    title: movie.title,
+    summary: movie.summary,
+    sceneCount: movie.scenes.length,
+    thumbnail: await createThumbnail(await getAssetUrl(movie.scenes.find(s => s.imageId)?.imageId)),
+    createdAt: createdAt ?? Date.now(),
+    updatedAt: Date.now()
+  };
+
+  const db = await openLibraryDb();
+  const tx = db.transaction([META_STORE, BUNDLE_STORE], 'readwrite');
+  tx.objectStore(META_STORE).put(summary);
+  tx.objectStore(BUNDLE_STORE).put(bundle, id);
+  await transactionDone(tx);
+  return summary;
+};
+
+const readBundle = async (id: string): Promise<ProjectBundle> => {
+  const db = await openLibraryDb();
+  const raw = await promisify(db.transaction(BUNDLE_STORE).objectStore(BUNDLE_STORE).get(id));
+  if (!raw) throw new Error("Project not found in library.");
+  // Saves from before the asset store carry their assets inline; they move to the store on first read
+  return importBundleAssets(await migrateProjectBundle(raw));
+};
+
+const readSummary = async (id: string): Promise<ProjectSummary | undefined> => {
+  const db = await openLibraryDb();
+  return promisify(db.transaction(META_STORE).objectStore(META_STORE).get(id));
+};
+
+// --- PUBLIC API ---
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openLibraryDb();
+  const all: ProjectSummary[] = await promisify(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const searchProjects = (projects: ProjectSummary[], query: string): ProjectSummary[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return projects;
+  return projects.filter(p => p.title.toLowerCase().includes(q) || p.summary.toLowerCase().includes(q));
+};
+
+// Creates a new entry when no id is given or the id isn't stored yet, otherwise overwrites it
+export const saveProject = async (data: ProjectData, id?: string): Promise<string> => {
+  const projectId = id || newProjectId();
+  const existing = id ? await readSummary(id) : undefined;
+  await writeProject(projectId, createProjectBundle(data), existing?.createdAt);
+  return projectId;
+};
+
+export const loadProject = async (id: string): Promise<ProjectData> => {
+  return bundleToProjectData(await readBundle(id));
+};
+
+export const renameProject = async (id: string, title: string): Promise<void> => {
+  const bundle = await readBundle(id);
+  const existing = await readSummary(id);
+  bundle.movie = { ...bundle.movie, title };
+  await writeProject(id, bundle, existing?.createdAt);
+};
+
+export const duplicateProject = async (id: string): Promise<string> => {
+  const bundle = await readBundle(id);
+  const copyId = newProjectId();
+  bundle.movie = { ...bundle.movie, title: `${bundle.movie.title} (copy)` };
+  await writeProject(copyId, bundle);
+  return copyId;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction([META_STORE, BUNDLE_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(BUNDLE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Removes assets no saved project refers to any more, e.g. after a delete. Movies that are open
+// but not saved yet pass their ids as `inUse`. Saves from before the asset store hold no ids.
+export const collectUnusedAssets = async (inUse: AssetId[] = []): Promise<void> => {
+  const db = await openLibraryDb();
+  const bundles: any[] = await promisify(db.transaction(BUNDLE_STORE).objectStore(BUNDLE_STORE).getAll());
+  const keep = new Set(inUse);
+  bundles.forEach(bundle => {
+    if (bundle?.movie && Array.isArray(bundle.movie.scenes)) collectAssetIds(bundle.movie).forEach(id => keep.add(id));
+  });
+  await deleteAssetsExcept(keep);
+};
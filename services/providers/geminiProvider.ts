@@ -0,0 +1,119 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AIProvider, VoiceOption } from "./types";
+import { parseDataUrl } from "../../utils/dataUrl";
+
+const MODELS = {
+  story: 'gemini-3-flash-preview',
+  image: 'gemini-2.5-flash-image',
+  speech: 'gemini-2.5-flash-preview-tts',
+  audioAnalysis: 'gemini-2.5-flash'
+};
+
+// Prebuilt voices of the TTS model
+export const GEMINI_VOICES: VoiceOption[] = [
+  { id: 'Puck', label: 'Upbeat', gender: 'male' },
+  { id: 'Charon', label: 'Informative', gender: 'male' },
+  { id: 'Fenrir', label: 'Excitable', gender: 'male' },
+  { id: 'Orus', label: 'Firm', gender: 'male' },
+  { id: 'Enceladus', label: 'Breathy', gender: 'male' },
+  { id: 'Iapetus', label: 'Clear', gender: 'male' },
+  { id: 'Umbriel', label: 'Easy-going', gender: 'male' },
+  { id: 'Algieba', label: 'Smooth', gender: 'male' },
+  { id: 'Algenib', label: 'Gravelly', gender: 'male' },
+  { id: 'Rasalgethi', label: 'Informative', gender: 'male' },
+  { id: 'Alnilam', label: 'Firm', gender: 'male' },
+  { id: 'Schedar', label: 'Even', gender: 'male' },
+  { id: 'Achird', label: 'Friendly', gender: 'male' },
+  { id: 'Zubenelgenubi', label: 'Casual', gender: 'male' },
+  { id: 'Sadachbia', label: 'Lively', gender: 'male' },
+  { id: 'Sadaltager', label: 'Knowledgeable', gender: 'male' },
+  { id: 'Kore', label: 'Firm', gender: 'female' },
+  { id: 'Zephyr', label: 'Bright', gender: 'female' },
+  { id: 'Leda', label: 'Youthful', gender: 'female' },
+  { id: 'Aoede', label: 'Breezy', gender: 'female' },
+  { id: 'Callirrhoe', label: 'Easy-going', gender: 'female' },
+  { id: 'Autonoe', label: 'Bright', gender: 'female' },
+  { id: 'Despina', label: 'Smooth', gender: 'female' },
+  { id: 'Erinome', label: 'Clear', gender: 'female' },
+  { id: 'Laomedeia', label: 'Upbeat', gender: 'female' },
+  { id: 'Achernar', label: 'Soft', gender: 'female' },
+  { id: 'Gacrux', label: 'Mature', gender: 'female' },
+  { id: 'Pulcherrima', label: 'Forward', gender: 'female' },
+  { id: 'Vindemiatrix', label: 'Gentle', gender: 'female' },
+  { id: 'Sulafat', label: 'Warm', gender: 'female' }
+];
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): AIProvider => {
+  const genAI = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    voices: GEMINI_VOICES,
+
+    generateStory: async ({ prompt, systemInstruction, schema, maxOutputTokens, signal }) => {
+      const response = await genAI.models.generateContent({
+        model: MODELS.story,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          maxOutputTokens,
+          abortSignal: signal
+        }
+      });
+      return response.text || '';
+    },
+
+    generateImage: async ({ prompt, aspectRatio, referenceImages = [], signal }) => {
+      const parts: any[] = [{ text: `${prompt} Aspect Ratio: ${aspectRatio}` }];
+      referenceImages.forEach(ref => {
+        const image = parseDataUrl(ref.dataUrl);
+        if (!image) return;
+        parts.push({ text: `Strict visual reference for ${ref.label}:` });
+        parts.push({ inlineData: image });
+      });
+      const response = await genAI.models.generateContent({
+        model: MODELS.image,
+        contents: { parts },
+        config: { abortSignal: signal }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+      return undefined;
+    },
+
+    synthesizeSpeech: async ({ text, voice, signal }) => {
+      const response = await genAI.models.generateContent({
+        model: MODELS.speech,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || 'Puck' } } },
+          abortSignal: signal
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    },
+
+    analyzeAudio: async ({ audioBase64, mimeType, prompt, systemInstruction, schema, maxOutputTokens, signal }) => {
+      const response = await genAI.models.generateContent({
+        model: MODELS.audioAnalysis,
+        contents: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: prompt }
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          maxOutputTokens,
+          abortSignal: signal
+        }
+      });
+      return response.text || '';
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { AIProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export * from "./types";
+
+const STORAGE_KEY = 'aicinema.provider';
+
+// Registered backends, keyed by provider id. Gemini is the default.
+const providers = new Map<string, () => AIProvider>([
+  ['gemini', () => createGeminiProvider()],
+  ['mock', () => createMockProvider()]
+]);
+
+// Priority: AI_PROVIDER env var (set in .env.local) > the settings toggle > Gemini
+const readInitialProviderId = (): string => {
+  if (process.env.AI_PROVIDER && providers.has(process.env.AI_PROVIDER)) return process.env.AI_PROVIDER;
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored && providers.has(stored)) return stored;
+  } catch (e) {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+  return 'gemini';
+};
+
+let activeId = readInitialProviderId();
+let activeProvider: AIProvider | null = null;
+
+export const registerProvider = (id: string, factory: () => AIProvider) => {
+  providers.set(id, factory);
+  if (id === activeId) activeProvider = null;
+};
+
+export const listProviders = (): string[] => Array.from(providers.keys());
+
+export const setActiveProvider = (id: string, persist = false) => {
+  if (!providers.has(id)) throw new Error(`Unknown AI provider: ${id}`);
+  activeId = id;
+  activeProvider = null;
+  if (persist) {
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (e) {
+      console.warn("Could not persist provider choice", e);
+    }
+  }
+};
+
+export const getActiveProviderId = () => activeId;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = providers.get(activeId)!();
+  return activeProvider;
+};
@@ -0,0 +1,216 @@
+import { Type } from "@google/genai";
+import { AspectRatio } from "../../types";
+import { AIProvider, StructuredSchema } from "./types";
+import { GEMINI_VOICES } from "./geminiProvider";
+import { hashString, createRandom } from "../../utils/random";
+import { TTS_SAMPLE_RATE, encodeBase64 } from "../../utils/audioUtils";
+import { MS_PER_CHAR } from "../../utils/timeline";
+
+// Offline backend for development, demos and automated runs.
+// Every output is derived from a seeded PRNG, so the same request always yields the same result.
+
+const LATENCY_MS = 150;
+
+const NAMES = ['Alex', 'Maria', 'Oscar', 'Lena', 'Victor', 'Nora', 'Felix', 'Iris'];
+const PLACES = ['a rainy rooftop', 'a quiet library', 'a neon market', 'a misty forest', 'an old train station', 'a lighthouse at dusk'];
+const ACTIONS = ['discovers a hidden letter', 'argues about the plan', 'watches the storm roll in', 'shares a secret', 'runs out of time', 'finds the missing key'];
+const NARRATIONS = [
+  'Nobody expected what came next.',
+  'The night was only beginning.',
+  'Some choices cannot be undone.',
+  'And then everything went quiet.'
+];
+const LINES = [
+  'We have to move now.',
+  'I told you this would happen.',
+  'Look at this, it changes everything.',
+  'Are you sure we can trust them?',
+  'Stay close and keep quiet.',
+  'Maybe there is another way.'
+];
+
+const RESOLUTIONS: Record<AspectRatio, [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+  '1:1': [1024, 1024],
+  '4:5': [896, 1120],
+  '21:9': [1470, 630]
+};
+
+// --- SEEDED RANDOMNESS ---
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- STORY (schema driven) ---
+
+interface StoryContext {
+  random: () => number;
+  topic: string;
+  sceneCount: number;
+  castIds: string[];
+  clock: number;
+}
+
+const extractTopic = (prompt: string) => {
+  const quoted = prompt.match(/Prompt:\s*"([^"]*)"/);
+  return (quoted ? quoted[1] : prompt).trim().split(/\s+/).slice(0, 6).join(' ') || 'Untitled';
+};
+
+const arrayLength = (key: string, ctx: StoryContext): number => {
+  switch (key) {
+    case 'scenes': return ctx.sceneCount;
+    case 'cast': return 2 + Math.floor(ctx.random() * 2);
+    case 'script': return 2 + Math.floor(ctx.random() * 2);
+    default: return 2;
+  }
+};
+
+const mockString = (key: string, index: number, ctx: StoryContext, parentKey: string): string => {
+  const { random } = ctx;
+  switch (key) {
+    case 'id': return parentKey === 'cast' ? `char-${index + 1}` : `${parentKey.replace(/s$/, '') || 'item'}-${index + 1}`;
+    case 'characterId': return ctx.castIds.length > 0 ? pick(random, ctx.castIds) : 'narrator';
+    case 'title': return `Mock: ${ctx.topic}`;
+    case 'summary': return parentKey === 'scenes' ? `Someone ${pick(random, ACTIONS)}.` : `An offline demo story about ${ctx.topic}.`;
+    case 'logline': return `A story about ${ctx.topic}.`;
+    case 'language': return 'en-US';
+    case 'name': return NAMES[index % NAMES.length];
+    case 'text': return pick(random, LINES);
+    case 'narration': return pick(random, NARRATIONS);
+    case 'description':
+      return parentKey === 'cast'
+        ? `${pick(random, ['Tall', 'Short', 'Young', 'Elderly'])} figure in a ${pick(random, ['red', 'blue', 'green', 'grey'])} coat.`
+        : `Someone ${pick(random, ACTIONS)} in ${pick(random, PLACES)}.`;
+    default: return `${key} ${index + 1}`;
+  }
+};
+
+const mockNumber = (key: string, ctx: StoryContext): number => {
+  switch (key) {
+    case 'duration': return 4 + Math.floor(ctx.random() * 4);
+    case 'act': return 1 + Math.floor(ctx.random() * 3);
+    case 'startTime': return ctx.clock;
+    case 'endTime': return (ctx.clock += 4 + Math.floor(ctx.random() * 4));
+    default: return Math.floor(ctx.random() * 10);
+  }
+};
+
+const mockValue = (schema: StructuredSchema, key: string, index: number, ctx: StoryContext, parentKey: string): any => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, any> = {};
+      for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+        result[prop] = mockValue(propSchema, prop, index, ctx, key);
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      if (key === 'charactersInScene') {
+        return ctx.castIds.filter(() => ctx.random() > 0.4).slice(0, 2);
+      }
+      const items = Array.from({ length: arrayLength(key, ctx) }, (_, i) => mockValue(schema.items || { type: Type.STRING }, key, i, ctx, key));
+      if (key === 'cast') ctx.castIds = items.map((c: any) => c.id).filter(Boolean);
+      return items;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return mockNumber(key, ctx);
+    case Type.BOOLEAN:
+      return ctx.random() > 0.5;
+    case Type.STRING:
+    default:
+      if (schema.enum && schema.enum.length > 0) return pick(ctx.random, schema.enum);
+      return mockString(key, index, ctx, parentKey);
+  }
+};
+
+const mockStory = (prompt: string, schema: StructuredSchema, defaultScenes: number): string => {
+  const sceneMatch = prompt.match(/Scene Count:\s*(\d+)/i);
+  const ctx: StoryContext = {
+    random: createRandom(prompt),
+    topic: extractTopic(prompt),
+    sceneCount: sceneMatch ? Number(sceneMatch[1]) : defaultScenes,
+    // Ids the prompt already names (scene batches have no 'cast' of their own)
+    castIds: Array.from(prompt.matchAll(/ID:\s*([\w-]+)/g), m => m[1]),
+    clock: 0
+  };
+  return JSON.stringify(mockValue(schema, '', 0, ctx, ''));
+};
+
+// --- IMAGES ---
+
+const mockImage = (prompt: string, aspectRatio: AspectRatio): string => {
+  const random = createRandom(prompt);
+  const [width, height] = RESOLUTIONS[aspectRatio] || RESOLUTIONS['16:9'];
+  const hue = Math.floor(random() * 360);
+  const shapes = Array.from({ length: 6 }, () => {
+    const cx = Math.round(random() * width);
+    const cy = Math.round(random() * height);
+    const r = Math.round((0.05 + random() * 0.2) * Math.min(width, height));
+    return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="hsla(${(hue + 40 + random() * 80) % 360},70%,60%,0.35)"/>`;
+  }).join('');
+  const horizon = Math.round(height * (0.55 + random() * 0.2));
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},60%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,55%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#sky)"/>${shapes}`
+    + `<rect y="${horizon}" width="100%" height="${height - horizon}" fill="hsl(${(hue + 180) % 360},30%,18%)"/>`
+    + `<text x="24" y="${height - 24}" font-family="monospace" font-size="${Math.round(height / 24)}" fill="rgba(255,255,255,0.6)">MOCK ${aspectRatio}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// --- SPEECH ---
+
+// Syllable-like hum: a voiced tone whose pitch depends on the voice, gated ~4 times per second
+const mockSpeech = (text: string, voice: string): string => {
+  const random = createRandom(`${voice}:${text}`);
+  const durationMs = Math.max(800, text.length * MS_PER_CHAR);
+  const frameCount = Math.floor((durationMs / 1000) * TTS_SAMPLE_RATE);
+  const basePitch = 100 + (hashString(voice) % 120);
+  const syllableRate = 3.5 + random();
+  const samples = new Int16Array(frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / TTS_SAMPLE_RATE;
+    const gate = Math.max(0, Math.sin(Math.PI * syllableRate * t));
+    const pitch = basePitch * (1 + 0.05 * Math.sin(2 * Math.PI * 0.7 * t));
+    const tone = Math.sin(2 * Math.PI * pitch * t) + 0.4 * Math.sin(4 * Math.PI * pitch * t);
+    const fade = Math.min(1, t * 20, (frameCount - i) / (TTS_SAMPLE_RATE * 0.05));
+    samples[i] = Math.round(tone * gate * fade * 0.25 * 32767);
+  }
+  return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+// --- PROVIDER ---
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  label: 'Offline Mock',
+  // Same names as Gemini so a project keeps its casting when switching backends
+  voices: GEMINI_VOICES,
+
+  generateStory: async ({ prompt, schema }) => {
+    await delay(LATENCY_MS);
+    return mockStory(prompt, schema, 3);
+  },
+
+  generateImage: async ({ prompt, aspectRatio }) => {
+    await delay(LATENCY_MS);
+    return mockImage(prompt, aspectRatio);
+  },
+
+  synthesizeSpeech: async ({ text, voice }) => {
+    await delay(LATENCY_MS);
+    return mockSpeech(text, voice);
+  },
+
+  analyzeAudio: async ({ prompt, schema }) => {
+    await delay(LATENCY_MS);
+    return mockStory(prompt, schema, 4);
+  }
+});
@@ -0,0 +1,66 @@
+import { Schema } from "@google/genai";
+import { AspectRatio } from "../../types";
+
+// Structured-output schemas use the OpenAPI subset understood by Gemini.
+// Other backends translate it (e.g. to JSON Schema) or ignore it.
+export type StructuredSchema = Schema;
+
+// Every request may carry a signal; backends that can't abort in flight may ignore it
+interface CancellableRequest {
+  signal?: AbortSignal;
+}
+
+export interface StoryRequest extends CancellableRequest {
+  prompt: string;
+  systemInstruction?: string;
+  schema: StructuredSchema;
+  maxOutputTokens?: number;
+}
+
+export interface ReferenceImage {
+  label: string;   // who or what the image shows, e.g. a character name
+  dataUrl: string;
+}
+
+export interface ImageRequest extends CancellableRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  referenceImages?: ReferenceImage[];
+}
+
+export interface SpeechRequest extends CancellableRequest {
+  text: string;
+  voice: string;
+}
+
+export interface VoiceOption {
+  id: string;      // passed back as SpeechRequest.voice
+  label: string;   // short description of the timbre
+  gender: 'male' | 'female';
+}
+
+export interface AudioAnalysisRequest extends CancellableRequest {
+  audioBase64: string;
+  mimeType: string;
+  prompt: string;
+  systemInstruction?: string;
+  schema: StructuredSchema;
+  maxOutputTokens?: number;
+}
+
+// A backend capable of producing every asset a movie needs.
+// Implementations throw on failure; the orchestration layer decides about retries and fallbacks.
+export interface AIProvider {
+  id: string;
+  label: string;
+  /** Every voice synthesizeSpeech accepts. */
+  voices: VoiceOption[];
+  /** Returns the raw JSON text matching `schema`. */
+  generateStory(request: StoryRequest): Promise<string>;
+  /** Returns a data URL, or undefined when the backend produced no image. */
+  generateImage(request: ImageRequest): Promise<string | undefined>;
+  /** Returns base64 encoded 24 kHz 16-bit mono PCM. */
+  synthesizeSpeech(request: SpeechRequest): Promise<string | undefined>;
+  /** Returns the raw JSON text matching `schema`. */
+  analyzeAudio(request: AudioAnalysisRequest): Promise<string>;
+}
@@ -5,25 +5,55 @@ export type AudioMode = 'gemini' | 'browser' | 'custom'; // 'custom' = User Uplo
 
 export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '21:9';
 
-export type SceneCount = 3 | 5 | 8;
+export type SceneCount = 3 | 5 | 8 | 12 | 20 | 30 | 40;
+
+// How long a generated movie should be: a number of scenes, or a runtime the scenes are planned to fill
+export type MovieLength =
+  | { mode: 'scenes'; sceneCount: SceneCount }
+  | { mode: 'duration'; targetMs: number };
 
 export interface CharacterConfig {
   id: string;
   name: string;
   description: string;
   voice?: string; 
-  referenceImageData?: string; // Base64 image for reference
+  referenceImages?: string[]; // Data URLs of reference photos
 }
 
-export interface Character {
-  id: string;
-  name: string;
+// Web Speech API settings for one speaker in 'browser' audio mode
+export interface BrowserVoiceSettings {
+  voiceURI?: string; // SpeechSynthesisVoice.voiceURI; unset = the browser's default for the language
+  rate: number;
+  pitch: number;
+}
+
+// A character as stored on the movie; scenes and dialogue lines refer to it by id
+export interface CastMember extends CharacterConfig {
+  color: string; // Accent used for the speaker label in overlays and the editor
+  browserVoice?: BrowserVoiceSettings;
+}
+
+// SHA-256 of an asset's bytes; the bytes themselves live in the asset store (services/assetStore.ts)
+export type AssetId = string;
+
+// A pre-generated voice clip (raw 16-bit PCM). Its length is kept so timing needs no decoding.
+export interface AudioClip {
+  assetId: AssetId;
+  durationMs: number;
+}
+
+// Outcome of the latest attempt to generate an image or a voice clip
+export interface AssetStatus {
+  state: 'pending' | 'ok' | 'failed';
+  reason?: string; // Provider error message when state is 'failed'
 }
 
 export interface DialogueLine {
   characterId: string;
   text: string;
-  audioData?: string; // Base64 audio (Pre-generated)
+  audio?: AudioClip; // Pre-generated
+  audioStale?: boolean; // Text or speaker changed after the clip was generated
+  audioStatus?: AssetStatus;
 }
 
 export interface Scene {
@@ -31,11 +61,19 @@ export interface Scene {
   duration: number; // Duration in seconds
   startTime?: number; // Start time in seconds (for custom audio sync)
   endTime?: number;   // End time in seconds (for custom audio sync)
-  backgroundImageUrl?: string; 
+  imageId?: AssetId;
+  imagePrompt?: string; // Exact prompt used for the current image (may be a user override)
+  imagePromptOverride?: string; // Written during script review; used instead of the built prompt for the first image
+  imageTakes?: AssetId[]; // Every image generated for this scene, including the current one
+  imageStatus?: AssetStatus;
   backgroundColor?: string; // Fallback
-  description: string;
-  narrationAudioData?: string; // Base64 audio for the description (Pre-generated)
-  characters: Character[]; // List of characters present in this scene (for context)
+  description: string; // What the scene shows; the image prompt is built from it
+  narration?: string; // What the narrator says over the scene, also its subtitle
+  noNarrator?: boolean; // The scene plays without a narrator; the narration text is kept
+  narrationAudio?: AudioClip; // The narration read out (Pre-generated)
+  narrationStale?: boolean; // Narration changed after narrationAudio was generated
+  narrationStatus?: AssetStatus;
+  characterIds: string[]; // Cast members present in this scene
   script: DialogueLine[]; 
 }
 
@@ -45,12 +83,44 @@ export interface Movie {
   style: VisualStyle;
   audioMode: AudioMode;
   aspectRatio: AspectRatio;
-  customAudioData?: string; // Base64 of the uploaded user file
+  language?: string; // BCP-47 tag of the script, e.g. 'en-US' or 'ru-RU'
+  customAudioId?: AssetId; // The uploaded user file
+  cast: CastMember[];
+  narratorVoice?: string;
+  voiceSeed?: string; // Seeds automatic voice casting so it comes out the same every time
+  targetDurationMs?: number; // Set for target-runtime movies; scene durations are then each scene's planned share
+  narratorBrowserVoice?: BrowserVoiceSettings;
   scenes: Scene[];
 }
 
+export type GenerationStepStatus = 'pending' | 'done' | 'failed';
+
+export interface GenerationCounter {
+  done: number;   // finished successfully
+  failed: number;
+  total: number;
+}
+
+export interface SceneGenerationProgress {
+  sceneId: string;
+  description: string;
+  image: GenerationStepStatus;
+  imageId?: AssetId;
+  voices: GenerationCounter;
+}
+
+// Built from the events generateMovie / generateMovieFromAudio emit while they work
+export interface GenerationProgress {
+  phase: 'script' | 'assets';
+  script: GenerationCounter;  // scenes written out from the outline
+  scenes: SceneGenerationProgress[];
+  images: GenerationCounter;
+  voices: GenerationCounter;
+}
+
 export interface GenerationState {
-  status: 'idle' | 'generating' | 'playing' | 'editing' | 'finished' | 'error' | 'rendering';
+  status: 'idle' | 'generating' | 'reviewing' | 'playing' | 'editing' | 'finished' | 'error' | 'rendering';
   error?: string;
   loadingMessage?: string;
+  progress?: GenerationProgress;
 }
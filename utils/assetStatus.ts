@@ -0,0 +1,97 @@
+import { Movie, Scene, DialogueLine, AssetStatus } from '../types';
+import { sceneNarration } from './timeline';
+
+// What a movie still lacks, derived from the assets themselves rather than the recorded
+// statuses, so movies saved before statuses existed (or mid-generation) can be repaired too.
+// Stale clips count as missing: playback ignores them until they are re-voiced.
+
+export type MissingAsset =
+  | { kind: 'image'; sceneIndex: number }
+  | { kind: 'narration'; sceneIndex: number }
+  | { kind: 'line'; sceneIndex: number; lineIndex: number };
+
+export const ASSET_OK: AssetStatus = { state: 'ok' };
+export const ASSET_PENDING: AssetStatus = { state: 'pending' };
+
+export const assetFailed = (reason: string): AssetStatus => ({ state: 'failed', reason });
+
+export const sceneNeedsImage = (scene: Scene): boolean => !scene.imageId;
+
+export const sceneNeedsNarration = (movie: Pick<Movie, 'audioMode'>, scene: Scene): boolean =>
+  movie.audioMode === 'gemini' && !!sceneNarration(scene) && (!scene.narrationAudio || !!scene.narrationStale);
+
+export const lineNeedsAudio = (movie: Pick<Movie, 'audioMode'>, line: DialogueLine): boolean =>
+  movie.audioMode === 'gemini' && !!line.text.trim() && (!line.audio || !!line.audioStale);
+
+export const findMissingAssets = (movie: Movie): MissingAsset[] => {
+  const missing: MissingAsset[] = [];
+  movie.scenes.forEach((scene, sceneIndex) => {
+    if (sceneNeedsImage(scene)) missing.push({ kind: 'image', sceneIndex });
+    if (sceneNeedsNarration(movie, scene)) missing.push({ kind: 'narration', sceneIndex });
+    scene.script.forEach((line, lineIndex) => {
+      if (lineNeedsAudio(movie, line)) missing.push({ kind: 'line', sceneIndex, lineIndex });
+    });
+  });
+  return missing;
+};
+
+// Folds a repaired copy back into the latest movie. Assets are only taken where the latest
+// version still lacks them and the text they were made from hasn't been edited meanwhile.
+export const mergeRepairedAssets = (latest: Movie, repaired: Movie): Movie => ({
+  ...latest,
+  scenes: latest.scenes.map(scene => {
+    const source = repaired.scenes.find(s => s.id === scene.id);
+    if (!source) return scene;
+    let next = scene;
+    if (sceneNeedsImage(scene) && source.imageStatus) {
+      next = {
+        ...next,
+        imageId: source.imageId,
+        imagePrompt: source.imagePrompt,
+        imagePromptOverride: source.imagePromptOverride,
+        imageTakes: [...new Set([...(scene.imageTakes || []), ...(source.imageTakes || [])])],
+        imageStatus: source.imageStatus
+      };
+    }
+    if (sceneNeedsNarration(latest, scene) && sceneNarration(source) === sceneNarration(scene) && source.narrationStatus) {
+      next = source.narrationAudio
+        ? { ...next, narrationAudio: source.narrationAudio, narrationStale: false, narrationStatus: source.narrationStatus }
+        : { ...next, narrationStatus: source.narrationStatus };
+    }
+    const script = next.script.map((line, i) => {
+      const repairedLine = source.script[i];
+      if (!repairedLine?.audioStatus || !lineNeedsAudio(latest, line)) return line;
+      if (repairedLine.text !== line.text || repairedLine.characterId !== line.characterId) return line;
+      return repairedLine.audio
+        ? { ...line, audio: repairedLine.audio, audioStale: false, audioStatus: repairedLine.audioStatus }
+        : { ...line, audioStatus: repairedLine.audioStatus };
+    });
+    return { ...next, script };
+  })
+});
+
+// A scene can be played once none of its assets is still being generated
+export const isSceneReady = (scene: Scene): boolean =>
+  scene.imageStatus?.state !== 'pending' &&
+  scene.narrationStatus?.state !== 'pending' &&
+  scene.script.every(l => l.audioStatus?.state !== 'pending');
+
+// Copies a movie down to the dialogue lines, the deepest objects asset jobs write to
+export const snapshotMovie = (movie: Movie): Movie => ({
+  ...movie,
+  scenes: movie.scenes.map(s => ({ ...s, script: s.script.map(l => ({ ...l })) }))
+});
+
+// What an interrupted generation left 'pending' becomes a failure the repair action picks up
+export const settlePendingAssets = (movie: Movie, reason: string): Movie => {
+  const settle = (status?: AssetStatus) => status?.state === 'pending' ? assetFailed(reason) : status;
+  return {
+    ...movie,
+    scenes: movie.scenes.map(s => ({
+      ...s,
+      imageStatus: settle(s.imageStatus),
+      narrationStatus: settle(s.narrationStatus),
+      script: s.script.map(l => ({ ...l, audioStatus: settle(l.audioStatus) }))
+    }))
+  };
+};
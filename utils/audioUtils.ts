@@ -1,3 +1,44 @@
+// Gemini TTS returns raw 16-bit mono PCM at this rate
+export const TTS_SAMPLE_RATE = 24000;
+
+// Helpers for PCM Decoding
+export function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // In chunks: spreading a whole clip into fromCharCode overflows the argument limit
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export async function decodePcmAudio(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number = TTS_SAMPLE_RATE,
+  numChannels: number = 1,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
 
 export const getAudioDuration = async (file: File): Promise<number> => {
     const arrayBuffer = await file.arrayBuffer();
@@ -42,7 +83,7 @@ export const trimAudio = async (file: File, startTime: number, endTime: number):
     return bufferToWav(renderedBuffer);
 };
 
-function bufferToWav(abuffer: AudioBuffer): Blob {
+export function bufferToWav(abuffer: AudioBuffer): Blob {
   const numOfChan = abuffer.numberOfChannels;
   const length = abuffer.length * numOfChan * 2 + 44;
   const buffer = new ArrayBuffer(length);
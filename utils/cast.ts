@@ -0,0 +1,20 @@
+import { Movie, Scene, CastMember } from '../types';
+
+export const NARRATOR_ID = 'narrator';
+
+export const CAST_COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#0ea5e9', '#ef4444', '#8b5cf6', '#14b8a6'];
+
+export const castColor = (index: number) => CAST_COLORS[index % CAST_COLORS.length];
+
+// First palette color not used yet, so a new member stands out from the existing ones
+export const nextCastColor = (cast: CastMember[]) =>
+  CAST_COLORS.find(color => !cast.some(c => c.color === color)) || castColor(cast.length);
+
+export const findCastMember = (movie: Pick<Movie, 'cast'>, id: string): CastMember | undefined =>
+  (movie.cast || []).find(c => c.id === id);
+
+export const castMemberName = (movie: Pick<Movie, 'cast'>, id: string): string =>
+  findCastMember(movie, id)?.name || id;
+
+export const getSceneCast = (movie: Pick<Movie, 'cast'>, scene: Scene): CastMember[] =>
+  scene.characterIds.map(id => findCastMember(movie, id)).filter((c): c is CastMember => !!c);
@@ -0,0 +1,18 @@
+export interface InlineData {
+  mimeType: string;
+  data: string; // base64 payload without the "data:...;base64," prefix
+}
+
+// Splits a base64 data URL into its MIME type and payload
+export const parseDataUrl = (dataUrl: string): InlineData | undefined => {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s.exec(dataUrl);
+  if (!match) return undefined;
+  return { mimeType: match[1], data: match[2] };
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
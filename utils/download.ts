@@ -0,0 +1,12 @@
+// Triggers a browser download for a generated file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Turns a movie title into something safe to use as a file name
+export const toFileName = (title: string) => (title || 'untitled').replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
@@ -0,0 +1,69 @@
+import { GenerationProgress, GenerationCounter, Movie, SceneGenerationProgress, AssetId } from '../types';
+import { sceneNeedsImage, sceneNeedsNarration, lineNeedsAudio } from './assetStatus';
+
+// Structured events emitted during generation. The service reports facts;
+// applyGenerationEvent folds them into the GenerationProgress the UI renders.
+// The 'script' event counts only the assets the movie still lacks, so a repair run
+// reports progress the same way as a fresh generation.
+export type GenerationEvent =
+  | { type: 'outline'; sceneCount: number }
+  | { type: 'scenes'; count: number }
+  | { type: 'script'; movie: Movie }
+  | { type: 'image'; sceneIndex: number; ok: boolean; imageId?: AssetId }
+  | { type: 'voice'; sceneIndex: number; lineIndex?: number; ok: boolean };
+
+export const createGenerationProgress = (): GenerationProgress => ({
+  phase: 'script',
+  script: { done: 0, failed: 0, total: 0 },
+  scenes: [],
+  images: { done: 0, failed: 0, total: 0 },
+  voices: { done: 0, failed: 0, total: 0 }
+});
+
+const count = (counter: GenerationCounter, ok: boolean): GenerationCounter =>
+  ok ? { ...counter, done: counter.done + 1 } : { ...counter, failed: counter.failed + 1 };
+
+const updateScene = (progress: GenerationProgress, index: number, update: (scene: SceneGenerationProgress) => SceneGenerationProgress) => ({
+  ...progress,
+  scenes: progress.scenes.map((s, i) => i === index ? update(s) : s)
+});
+
+export const applyGenerationEvent = (progress: GenerationProgress = createGenerationProgress(), event: GenerationEvent): GenerationProgress => {
+  switch (event.type) {
+    case 'outline':
+      return { ...progress, script: { done: 0, failed: 0, total: event.sceneCount } };
+    case 'scenes':
+      return { ...progress, script: { ...progress.script, done: progress.script.done + event.count } };
+    case 'script': {
+      const { movie } = event;
+      const scenes: SceneGenerationProgress[] = movie.scenes.map(s => ({
+        sceneId: s.id,
+        description: s.description,
+        image: sceneNeedsImage(s) ? 'pending' : 'done',
+        imageId: s.imageId,
+        voices: {
+          done: 0,
+          failed: 0,
+          total: (sceneNeedsNarration(movie, s) ? 1 : 0) + s.script.filter(l => lineNeedsAudio(movie, l)).length
+        }
+      }));
+      return {
+        phase: 'assets',
+        script: progress.script,
+        scenes,
+        images: { done: 0, failed: 0, total: scenes.filter(s => s.image === 'pending').length },
+        voices: { done: 0, failed: 0, total: scenes.reduce((sum, s) => sum + s.voices.total, 0) }
+      };
+    }
+    case 'image':
+      return {
+        ...updateScene(progress, event.sceneIndex, s => ({ ...s, image: event.ok ? 'done' : 'failed', imageId: event.imageId })),
+        images: count(progress.images, event.ok)
+      };
+    case 'voice':
+      return {
+        ...updateScene(progress, event.sceneIndex, s => ({ ...s, voices: count(s.voices, event.ok) })),
+        voices: count(progress.voices, event.ok)
+      };
+  }
+};
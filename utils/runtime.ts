@@ -0,0 +1,69 @@
+import { Movie, Scene } from '../types';
+import { buildTimeline, GAP_MS, MS_PER_CHAR } from './timeline';
+
+// Target-runtime mode: a brief in seconds becomes a scene plan, every scene gets its share
+// of the runtime as its planned `duration`, and the spoken timeline is checked against it.
+// Before voicing the timeline runs on estimated speech lengths, afterwards on the real clips.
+
+export const SCENE_TARGET_MS = 8000;     // a comfortable scene length when only the total is given
+export const MAX_PLANNED_SCENES = 40;
+export const OVERRUN_TOLERANCE = 1.25;   // a scene may run this much over its plan before it's flagged
+
+export interface RuntimePlan {
+  sceneCount: number;
+  sceneMs: number;       // average share of the runtime per scene
+  speechChars: number;   // narration and dialogue together, per scene
+}
+
+// Characters that can be read aloud in `ms`, given how many spoken steps (each followed by a pause) share it
+export const speechCharsFor = (ms: number, steps: number): number =>
+  Math.max(0, Math.floor((ms - steps * GAP_MS) / MS_PER_CHAR));
+
+export const planRuntime = (targetMs: number): RuntimePlan => {
+  const sceneCount = Math.min(MAX_PLANNED_SCENES, Math.max(1, Math.round(targetMs / SCENE_TARGET_MS)));
+  const sceneMs = targetMs / sceneCount;
+  // Narration plus a couple of lines
+  return { sceneCount, sceneMs, speechChars: speechCharsFor(sceneMs, 3) };
+};
+
+// Scales the model's scene durations (seconds) so they add up to the target; scenes without
+// one get an equal share
+export const fitSceneDurations = (scenes: Scene[], targetMs: number): Scene[] => {
+  const fallback = targetMs / 1000 / Math.max(1, scenes.length);
+  const proposed = scenes.map(s => (s.duration && s.duration > 0 ? s.duration : fallback));
+  const scale = targetMs / 1000 / proposed.reduce((sum, d) => sum + d, 0);
+  return scenes.map((scene, i) => ({ ...scene, duration: Math.round(proposed[i] * scale * 10) / 10 }));
+};
+
+// --- CHECKS ---
+
+export interface SceneRuntime {
+  plannedMs?: number;
+  actualMs: number;
+  overLong: boolean;
+}
+
+export interface RuntimeReport {
+  targetMs?: number;
+  actualMs: number;
+  overTarget: boolean;
+  scenes: SceneRuntime[];
+}
+
+export const getRuntimeReport = (movie: Movie): RuntimeReport => {
+  const timeline = buildTimeline(movie);
+  const targetMs = movie.targetDurationMs;
+  const scenes = movie.scenes.map((scene, i): SceneRuntime => {
+    const span = timeline.scenes[i];
+    const actualMs = span.end - span.start;
+    // Only a target-runtime movie plans its scenes; elsewhere `duration` is the model's guess
+    const plannedMs = targetMs && scene.duration ? scene.duration * 1000 : undefined;
+    return { plannedMs, actualMs, overLong: plannedMs !== undefined && actualMs > plannedMs * OVERRUN_TOLERANCE };
+  });
+  return {
+    targetMs,
+    actualMs: timeline.duration,
+    overTarget: targetMs !== undefined && timeline.duration > targetMs * OVERRUN_TOLERANCE,
+    scenes
+  };
+};
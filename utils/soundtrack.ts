@@ -0,0 +1,37 @@
+import { Movie } from '../types';
+import { TTS_SAMPLE_RATE, bufferToWav } from './audioUtils';
+import { buildTimeline } from './timeline';
+import { getAudioBuffer } from '../services/assetStore';
+
+// Lays every clip out at its timeline offset, so the mixdown lines up with the rendered video
+const mixSpokenTrack = async (movie: Movie): Promise<AudioBuffer> => {
+  const timeline = buildTimeline(movie);
+  const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil((timeline.duration / 1000) * TTS_SAMPLE_RATE)), TTS_SAMPLE_RATE);
+  for (const event of timeline.events) {
+    const buffer = event.audioId && await getAudioBuffer(event.audioId, ctx);
+    if (!buffer) continue;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start(event.start / 1000);
+  }
+  return ctx.startRendering();
+};
+
+const decodeCustomTrack = async (movie: Movie): Promise<AudioBuffer> => {
+  // The uploaded track is already trimmed before analysis; decoding only needs a throwaway context
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  const buffer = movie.customAudioId && await getAudioBuffer(movie.customAudioId, ctx);
+  if (!buffer) throw new Error("This movie has no uploaded audio track.");
+  return buffer;
+};
+
+export const exportSoundtrackWav = async (movie: Movie): Promise<Blob> => {
+  switch (movie.audioMode) {
+    case 'gemini': return bufferToWav(await mixSpokenTrack(movie));
+    case 'custom': return bufferToWav(await decodeCustomTrack(movie));
+    case 'browser':
+    default:
+      throw new Error("Browser TTS is synthesized live and can't be exported. Switch to AI voices to export audio.");
+  }
+};
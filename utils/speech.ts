@@ -0,0 +1,88 @@
+import { Movie, BrowserVoiceSettings } from '../types';
+import { NARRATOR_ID, findCastMember } from './cast';
+import { hashString } from './random';
+import { sceneNarration } from './timeline';
+
+// Browser (Web Speech API) voices for the free offline audio mode.
+// Speakers without explicit settings get a stable default: a voice in the movie's
+// language picked by speaker id, and a pitch offset so they still differ when the
+// browser only ships a single voice for that language.
+
+export const DEFAULT_RATE = 1;
+export const DEFAULT_PITCH = 1;
+
+// Resolves once the browser has populated its voice list (Chrome fills it asynchronously)
+export const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const synth = window.speechSynthesis;
+  const voices = synth.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    synth.addEventListener('voiceschanged', done);
+    // Some browsers never fire the event when they have no voices at all
+    setTimeout(done, 1500);
+  });
+};
+
+const CYRILLIC = /[\u0400-\u04FF]/g;
+const LETTERS = /\p{L}/gu;
+
+// Movies saved before the language was stored: Cyrillic text means Russian, otherwise
+// assume the user's browser language
+export const getMovieLanguage = (movie: Movie): string => {
+  if (movie.language) return movie.language;
+  const sample = movie.scenes.map(s => `${s.description} ${s.narration || ''}`).join(' ');
+  const letters = sample.match(LETTERS)?.length || 0;
+  const cyrillic = sample.match(CYRILLIC)?.length || 0;
+  if (letters > 0 && cyrillic / letters > 0.5) return 'ru-RU';
+  return navigator.language || 'en-US';
+};
+
+const languagePrefix = (lang: string) => lang.toLowerCase().split(/[-_]/)[0];
+
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice[] =>
+  voices.filter(v => languagePrefix(v.lang) === languagePrefix(lang));
+
+const getStoredSettings = (movie: Movie, speakerId: string): BrowserVoiceSettings | undefined =>
+  speakerId === NARRATOR_ID ? movie.narratorBrowserVoice : findCastMember(movie, speakerId)?.browserVoice;
+
+export const getDefaultBrowserVoice = (movie: Movie, speakerId: string, voices: SpeechSynthesisVoice[]): BrowserVoiceSettings => {
+  const matching = voicesForLanguage(voices, getMovieLanguage(movie));
+  const hash = hashString(speakerId);
+  // The narrator keeps the neutral pitch; characters spread between 0.8 and 1.2
+  const pitch = speakerId === NARRATOR_ID ? DEFAULT_PITCH : 0.8 + (hash % 5) * 0.1;
+  return {
+    voiceURI: matching.length > 0 ? matching[hash % matching.length].voiceURI : undefined,
+    rate: DEFAULT_RATE,
+    pitch: Math.round(pitch * 10) / 10
+  };
+};
+
+export const getBrowserVoice = (movie: Movie, speakerId: string, voices: SpeechSynthesisVoice[]): BrowserVoiceSettings =>
+  getStoredSettings(movie, speakerId) || getDefaultBrowserVoice(movie, speakerId, voices);
+
+export const createUtterance = (movie: Movie, speakerId: string, text: string): SpeechSynthesisUtterance => {
+  const voices = window.speechSynthesis.getVoices();
+  const settings = getBrowserVoice(movie, speakerId, voices);
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = voices.find(v => v.voiceURI === settings.voiceURI);
+  utterance.lang = voice?.lang || getMovieLanguage(movie);
+  if (voice) utterance.voice = voice;
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  return utterance;
+};
+
+// Something the speaker actually says in this movie, so voice previews are representative
+export const getVoiceSampleText = (movie: Movie, speakerId: string): string => {
+  const fallback = languagePrefix(getMovieLanguage(movie)) === 'ru' ? 'Привет! Вот так звучит мой голос.' : 'Hello! This is how my voice sounds.';
+  if (speakerId === NARRATOR_ID) return movie.scenes.map(sceneNarration).find(Boolean) || fallback;
+  for (const scene of movie.scenes) {
+    const line = scene.script.find(l => l.characterId === speakerId && l.text.trim());
+    if (line) return line.text;
+  }
+  return fallback;
+};
@@ -0,0 +1,375 @@
+import { CharacterConfig } from '../types';
+import { NARRATOR_ID } from './cast';
+
+// Every story JSON the model returns passes through here before it becomes a Movie.
+// What can be fixed safely is fixed (ids made unique, times clamped and sorted, unknown
+// speakers mapped to the cast or the narrator) and reported as an issue; what can't is an error.
+
+export type StoryIssueCode =
+  | 'truncated-json'        // the response was cut off; the complete part was kept
+  | 'missing-field'         // a required text was absent; an empty default was used
+  | 'invalid-character'     // a cast entry without id or name was dropped
+  | 'duplicate-character'   // a second cast entry with the same id was dropped
+  | 'duplicate-scene-id'    // the scene got a fresh id
+  | 'dropped-scene'         // a scene without description (or, with custom audio, without length)
+  | 'unknown-character'     // an id in charactersInScene that isn't in the cast; mapped or dropped
+  | 'unknown-speaker'       // a dialogue line's speaker isn't in the cast; mapped or given to the narrator
+  | 'empty-line'            // a dialogue line without text was dropped
+  | 'time-unsorted'         // custom-audio scenes were put in time order
+  | 'time-overlap'          // a scene started before the previous one ended
+  | 'time-out-of-range';    // a scene reached before 0 or past the end of the audio
+
+export interface StoryIssue {
+  code: StoryIssueCode;
+  message: string;
+  sceneIndex?: number;  // position in the response
+  lineIndex?: number;
+}
+
+export interface Validated<T> {
+  value: T;
+  issues: StoryIssue[];
+}
+
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface StoryLine {
+  characterId: string;
+  text: string;
+}
+
+export interface StoryScene {
+  id: string;
+  description: string;  // visual only
+  narration: string;    // spoken over the scene; empty for none
+  charactersInScene: string[];
+  script: StoryLine[];
+  duration?: number;   // seconds
+  startTime?: number;  // seconds into the uploaded audio (custom mode)
+  endTime?: number;
+}
+
+export interface Story {
+  title: string;
+  summary: string;
+  language?: string;
+  cast: StoryCharacter[];
+  scenes: StoryScene[];
+}
+
+export interface OutlineScene {
+  id: string;
+  act: number;
+  summary: string;
+  charactersInScene: string[];
+}
+
+export interface StoryOutline {
+  title: string;
+  summary: string;
+  language?: string;
+  logline: string;
+  acts: { title: string; summary: string }[];
+  cast: StoryCharacter[];
+  scenes: OutlineScene[];
+}
+
+export interface StoryValidationOptions {
+  isCustomAudio?: boolean;
+  audioDurationSec?: number;             // custom mode: scenes are clamped to the track
+  characterConfigs?: CharacterConfig[];  // the user's characters; referenced ones join the cast
+}
+
+// --- JSON ---
+
+// Cuts a truncated response back to its last complete element and closes whatever is still open.
+// Returns undefined when nothing complete is left.
+export const recoverTruncatedJson = (text: string): string | undefined => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut = -1;
+  let closersAtCut: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') inString = true;
+    else if (c === '{') closers.push('}');
+    else if (c === '[') closers.push(']');
+    else if (c === '}' || c === ']') {
+      closers.pop();
+      cut = i + 1;
+      closersAtCut = [...closers];
+    } else if (c === ',') {
+      cut = i;
+      closersAtCut = [...closers];
+    }
+  }
+
+  if (cut < 0) return undefined;
+  return text.slice(0, cut) + closersAtCut.reverse().join('');
+};
+
+export const parseStoryJson = <T = any>(text: string): Validated<T> => {
+  if (!text) throw new Error("AI returned empty response");
+  const cleanText = text.replace(/```json\n?|```/g, '').trim();
+  try {
+    return { value: JSON.parse(cleanText) as T, issues: [] };
+  } catch (e) {
+    const recovered = recoverTruncatedJson(cleanText);
+    if (recovered) {
+      try {
+        const issue: StoryIssue = { code: 'truncated-json', message: "The response was cut off; only its complete part was used." };
+        return { value: JSON.parse(recovered) as T, issues: [issue] };
+      } catch {
+        // Not a truncation after all; report the original error
+      }
+    }
+    console.error("JSON Parse Error. Text snippet:", cleanText.slice(-100));
+    if (e instanceof SyntaxError && (e.message.includes("Unterminated string") || e.message.includes("End of data") || e.message.includes("Expected"))) {
+      throw new Error("Response was cut off. The story is too long. Try fewer scenes.");
+    }
+    throw new Error("Failed to parse AI response. " + (e instanceof Error ? e.message : String(e)));
+  }
+};
+
+// --- HELPERS ---
+
+const text = (value: any): string => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+const num = (value: any): number | undefined => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return value !== null && value !== '' && Number.isFinite(n) ? n : undefined;
+};
+
+const list = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const requireText = (raw: any, field: string, issues: StoryIssue[], where: Partial<StoryIssue> = {}): string => {
+  const value = text(raw?.[field]);
+  if (!value) issues.push({ code: 'missing-field', message: `'${field}' is missing.`, ...where });
+  return value;
+};
+
+// The model is told to reuse ids, but sometimes writes a name instead
+const resolveCharacter = (ref: string, cast: StoryCharacter[]): string | undefined => {
+  const lower = ref.toLowerCase();
+  return (cast.find(c => c.id === ref) || cast.find(c => c.id.toLowerCase() === lower || c.name.toLowerCase() === lower))?.id;
+};
+
+// --- CAST ---
+
+const validateCast = (raw: any, issues: StoryIssue[]): StoryCharacter[] => {
+  const cast: StoryCharacter[] = [];
+  list(raw).forEach(entry => {
+    const id = text(entry?.id);
+    const name = text(entry?.name);
+    if (!id || id === NARRATOR_ID) {
+      issues.push({ code: 'invalid-character', message: `Cast entry "${name || id || '?'}" has no usable id and was dropped.` });
+    } else if (cast.some(c => c.id === id)) {
+      issues.push({ code: 'duplicate-character', message: `Cast id "${id}" appears twice; the second entry was dropped.` });
+    } else {
+      cast.push({ id, name: name || id, description: text(entry?.description) });
+    }
+  });
+  return cast;
+};
+
+// Unknown ids that name one of the user's characters bring that character into the cast
+const resolveOrAdopt = (ref: string, cast: StoryCharacter[], options: StoryValidationOptions): string | undefined => {
+  const known = resolveCharacter(ref, cast);
+  if (known) return known;
+  const lower = ref.toLowerCase();
+  const config = (options.characterConfigs || []).find(c => c.id === ref || c.name.trim().toLowerCase() === lower);
+  if (!config || config.id === NARRATOR_ID) return undefined;
+  if (!cast.some(c => c.id === config.id)) cast.push({ id: config.id, name: config.name, description: config.description });
+  return config.id;
+};
+
+const validateCharacterRefs = (raw: any, sceneIndex: number, cast: StoryCharacter[], options: StoryValidationOptions, issues: StoryIssue[]): string[] => {
+  const ids: string[] = [];
+  list(raw).forEach(ref => {
+    const id = resolveOrAdopt(text(ref), cast, options);
+    if (!id) {
+      issues.push({ code: 'unknown-character', message: `Character "${text(ref)}" is not in the cast and was removed from the scene.`, sceneIndex });
+      return;
+    }
+    if (id !== text(ref)) issues.push({ code: 'unknown-character', message: `Character "${text(ref)}" was matched to "${id}".`, sceneIndex });
+    if (!ids.includes(id)) ids.push(id);
+  });
+  return ids;
+};
+
+// --- SCENES ---
+
+const validateScript = (raw: any, sceneIndex: number, cast: StoryCharacter[], options: StoryValidationOptions, issues: StoryIssue[]): StoryLine[] => {
+  const script: StoryLine[] = [];
+  list(raw).forEach((line, lineIndex) => {
+    const lineText = text(line?.text);
+    if (!lineText) {
+      issues.push({ code: 'empty-line', message: "A dialogue line without text was dropped.", sceneIndex, lineIndex });
+      return;
+    }
+    const ref = text(line?.characterId);
+    let characterId = ref === NARRATOR_ID ? NARRATOR_ID : resolveOrAdopt(ref, cast, options);
+    if (!characterId) {
+      characterId = NARRATOR_ID;
+      issues.push({ code: 'unknown-speaker', message: `Speaker "${ref || '?'}" is not in the cast; the narrator reads the line.`, sceneIndex, lineIndex });
+    } else if (characterId !== ref) {
+      issues.push({ code: 'unknown-speaker', message: `Speaker "${ref}" was matched to "${characterId}".`, sceneIndex, lineIndex });
+    }
+    script.push({ characterId, text: lineText });
+  });
+  return script;
+};
+
+const uniqueId = (wanted: string, index: number, taken: Set<string>): string => {
+  let id = wanted || `scene-${index + 1}`;
+  for (let n = 2; taken.has(id); n++) id = `${wanted || `scene-${index + 1}`}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+const validateScene = (raw: any, sceneIndex: number, cast: StoryCharacter[], options: StoryValidationOptions, issues: StoryIssue[]): StoryScene | undefined => {
+  const description = text(raw?.description);
+  if (!description) {
+    issues.push({ code: 'dropped-scene', message: "A scene without description was dropped.", sceneIndex });
+    return undefined;
+  }
+  const duration = num(raw?.duration);
+  const script = options.isCustomAudio ? [] : validateScript(raw?.script, sceneIndex, cast, options, issues);
+  const charactersInScene = validateCharacterRefs(raw?.charactersInScene, sceneIndex, cast, options, issues);
+  // Speakers are present too
+  script.forEach(line => { if (line.characterId !== NARRATOR_ID && !charactersInScene.includes(line.characterId)) charactersInScene.push(line.characterId); });
+  return {
+    id: text(raw?.id),
+    description,
+    narration: text(raw?.narration),
+    charactersInScene,
+    script,
+    duration: duration !== undefined && duration > 0 ? duration : undefined,
+    startTime: num(raw?.startTime),
+    endTime: num(raw?.endTime)
+  };
+};
+
+// Custom mode: scenes in time order, without overlaps, inside the track
+const fixSceneTimes = (scenes: StoryScene[], audioDurationSec: number | undefined, issues: StoryIssue[]): StoryScene[] => {
+  const timed = scenes.map((scene, sceneIndex) => ({ scene, sceneIndex, start: scene.startTime ?? 0, end: scene.endTime ?? scene.startTime ?? 0 }));
+  const sorted = [...timed].sort((a, b) => a.start - b.start);
+  if (sorted.some((t, i) => t !== timed[i])) issues.push({ code: 'time-unsorted', message: "Scenes were put in time order." });
+
+  const result: StoryScene[] = [];
+  let cursor = 0;
+  sorted.forEach(({ scene, sceneIndex, start, end }) => {
+    if (start < 0 || end < 0 || (audioDurationSec !== undefined && end > audioDurationSec)) {
+      issues.push({ code: 'time-out-of-range', message: `Scene ${scene.id} (${start}s-${end}s) was clamped to the audio.`, sceneIndex });
+    }
+    const limit = audioDurationSec ?? Infinity;
+    start = Math.min(Math.max(0, start), limit);
+    end = Math.min(Math.max(0, end), limit);
+    if (start < cursor) {
+      issues.push({ code: 'time-overlap', message: `Scene ${scene.id} overlapped the previous scene and now starts at ${cursor}s.`, sceneIndex });
+      start = cursor;
+    }
+    if (end <= start) {
+      issues.push({ code: 'dropped-scene', message: `Scene ${scene.id} has no time left and was dropped.`, sceneIndex });
+      return;
+    }
+    result.push({ ...scene, startTime: start, endTime: end, duration: end - start });
+    cursor = end;
+  });
+  return result;
+};
+
+const validateSceneList = (raw: any, cast: StoryCharacter[], options: StoryValidationOptions, issues: StoryIssue[]): StoryScene[] => {
+  const taken = new Set<string>();
+  let scenes = list(raw)
+    .map((scene, i) => validateScene(scene, i, cast, options, issues))
+    .map((scene, i) => {
+      if (!scene) return undefined;
+      if (!scene.id) issues.push({ code: 'missing-field', message: "'id' is missing.", sceneIndex: i });
+      const id = uniqueId(scene.id, i, taken);
+      if (scene.id && id !== scene.id) issues.push({ code: 'duplicate-scene-id', message: `Scene id "${scene.id}" was used twice; renamed to "${id}".`, sceneIndex: i });
+      return { ...scene, id };
+    })
+    .filter((scene): scene is StoryScene => !!scene);
+  if (options.isCustomAudio) scenes = fixSceneTimes(scenes, options.audioDurationSec, issues);
+  if (scenes.length === 0) throw new Error("The story has no usable scenes.");
+  return scenes;
+};
+
+// --- STORIES ---
+
+export const validateStory = (raw: any, options: StoryValidationOptions = {}): Validated<Story> => {
+  const issues: StoryIssue[] = [];
+  const cast = validateCast(raw?.cast, issues);
+  const scenes = validateSceneList(raw?.scenes, cast, options, issues);
+  return {
+    value: {
+      title: requireText(raw, 'title', issues),
+      summary: text(raw?.summary),
+      language: text(raw?.language) || undefined,
+      cast,
+      scenes
+    },
+    issues
+  };
+};
+
+export const validateOutline = (raw: any, options: StoryValidationOptions = {}): Validated<StoryOutline> => {
+  const issues: StoryIssue[] = [];
+  const cast = validateCast(raw?.cast, issues);
+  const taken = new Set<string>();
+  const scenes: OutlineScene[] = [];
+  list(raw?.scenes).forEach((scene, i) => {
+    const summary = text(scene?.summary);
+    if (!summary) {
+      issues.push({ code: 'dropped-scene', message: "An outline scene without summary was dropped.", sceneIndex: i });
+      return;
+    }
+    const id = uniqueId(text(scene?.id), i, taken);
+    if (text(scene?.id) && id !== text(scene?.id)) issues.push({ code: 'duplicate-scene-id', message: `Scene id "${text(scene?.id)}" was used twice; renamed to "${id}".`, sceneIndex: i });
+    scenes.push({ id, act: num(scene?.act) ?? 1, summary, charactersInScene: validateCharacterRefs(scene?.charactersInScene, i, cast, options, issues) });
+  });
+  if (scenes.length === 0) throw new Error("The outline has no scenes.");
+
+  return {
+    value: {
+      title: requireText(raw, 'title', issues),
+      summary: text(raw?.summary),
+      language: text(raw?.language) || undefined,
+      logline: text(raw?.logline),
+      acts: list(raw?.acts).map(a => ({ title: text(a?.title), summary: text(a?.summary) })),
+      cast,
+      scenes
+    },
+    issues
+  };
+};
+
+// One scene written outside a full story (added or rewritten in the editor), checked against
+// the movie's cast; `takenIds` are the ids of the scenes it joins
+export const validateStandaloneScene = (raw: any, cast: StoryCharacter[], takenIds: string[] = []): Validated<StoryScene> => {
+  const issues: StoryIssue[] = [];
+  const scene = validateScene(raw, 0, [...cast], {}, issues);
+  if (!scene) throw new Error("The scene has no description.");
+  const id = uniqueId(scene.id, takenIds.length, new Set(takenIds));
+  if (scene.id && id !== scene.id) issues.push({ code: 'duplicate-scene-id', message: `Scene id "${scene.id}" is taken; renamed to "${id}".` });
+  return { value: { ...scene, id }, issues };
+};
+
+// Groups what was fixed in one response into a single console entry
+export const reportStoryIssues = (context: string, issues: StoryIssue[]) => {
+  if (issues.length === 0) return;
+  console.warn(`${context}: ${issues.length} issue(s) repaired`, issues);
+};
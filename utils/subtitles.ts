@@ -0,0 +1,79 @@
+import { Movie } from '../types';
+import { buildTimeline, TimelineEvent } from './timeline';
+import { castMemberName } from './cast';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+const NARRATOR = 'Narrator';
+
+// --- CUE TIMING ---
+
+// The parts of a narration span no dialogue line covers. Custom scenes carry the narration
+// under their lines; like the player (speechEventAt), a line wins while it is active.
+const uncoveredSpans = (narration: TimelineEvent, dialogue: TimelineEvent[]): [number, number][] => {
+  const spans: [number, number][] = [];
+  let cursor = narration.start;
+  dialogue
+    .filter(d => d.end > narration.start && d.start < narration.end)
+    .sort((a, b) => a.start - b.start)
+    .forEach(d => {
+      if (d.start > cursor) spans.push([cursor, d.start]);
+      cursor = Math.max(cursor, d.end);
+    });
+  if (cursor < narration.end) spans.push([cursor, narration.end]);
+  return spans;
+};
+
+export const buildSubtitleCues = (movie: Movie): SubtitleCue[] => {
+  const timeline = buildTimeline(movie);
+  const spoken = timeline.events.filter(e => (e.kind === 'narration' || e.kind === 'dialogue') && e.text?.trim());
+  const dialogue = spoken.filter(e => e.kind === 'dialogue');
+  return spoken
+    .flatMap(e => (e.kind === 'narration' ? uncoveredSpans(e, dialogue) : [[e.start, e.end] as [number, number]]).map(([start, end]) => ({
+      start: start / 1000,
+      end: end / 1000,
+      speaker: e.kind === 'dialogue' ? castMemberName(movie, e.characterId || '') : NARRATOR,
+      text: e.text!.trim()
+    })))
+    .sort((a, b) => a.start - b.start);
+};
+
+// --- FORMATTING ---
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const rest = ms % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(rest, 3)}`;
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) => [
+    String(i + 1),
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    `${cue.speaker}: ${cue.text}`
+  ].join('\n')).join('\n\n') + '\n';
+
+export const toVtt = (cues: SubtitleCue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}`
+  ].join('\n')).join('\n\n') + '\n';
+
+export const exportSubtitles = (movie: Movie, format: SubtitleFormat): Blob => {
+  const cues = buildSubtitleCues(movie);
+  const text = format === 'srt' ? toSrt(cues) : toVtt(cues);
+  return new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+};
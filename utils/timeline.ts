@@ -0,0 +1,182 @@
+import { Movie, Scene, AssetId } from '../types';
+import { TTS_SAMPLE_RATE } from './audioUtils';
+
+// Single source of truth for "what happens when" in a movie.
+// All times are in milliseconds from the start of the movie.
+
+export const GAP_MS = 500;
+export const MIN_STEP_MS = 2000;
+export const MS_PER_CHAR = 60;
+
+export type TimelineEventKind = 'scene' | 'narration' | 'dialogue' | 'gap';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  start: number;
+  end: number;
+  sceneIndex: number;
+  lineIndex?: number;     // dialogue only
+  characterId?: string;   // dialogue only
+  text?: string;          // narration & dialogue
+  audioId?: AssetId;      // pre-generated clip (gemini mode)
+}
+
+export interface Timeline {
+  events: TimelineEvent[];  // every event, ordered by start
+  scenes: TimelineEvent[];  // one 'scene' event per scene, in order
+  duration: number;
+}
+
+// Clip lengths in ms, keyed by event id
+export type ClipDurations = Map<string, number>;
+
+export const narrationEventId = (scene: Scene) => `${scene.id}:narration`;
+export const dialogueEventId = (scene: Scene, lineIndex: number) => `${scene.id}:line-${lineIndex}`;
+
+// What the narrator says over a scene; empty when the scene has no narrator
+export const sceneNarration = (scene: Scene): string => scene.noNarrator ? '' : (scene.narration || '').trim();
+
+export const estimateSpeechMs = (text: string) => Math.max(MIN_STEP_MS, text.length * MS_PER_CHAR);
+
+// Length of base64 PCM without decoding it: 3 bytes per 4 chars, 2 bytes per sample
+export const pcmClipMs = (base64: string): number => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return (bytes / 2 / TTS_SAMPLE_RATE) * 1000;
+};
+
+export const getClipDurations = (movie: Movie): ClipDurations => {
+  const durations: ClipDurations = new Map();
+  if (movie.audioMode !== 'gemini') return durations;
+  movie.scenes.forEach(scene => {
+    if (scene.narrationAudio && !scene.narrationStale && sceneNarration(scene)) durations.set(narrationEventId(scene), scene.narrationAudio.durationMs);
+    scene.script.forEach((line, i) => {
+      if (line.audio && !line.audioStale) durations.set(dialogueEventId(scene, i), line.audio.durationMs);
+    });
+  });
+  return durations;
+};
+
+// --- BUILDERS ---
+
+// Narration, then each dialogue line, every step followed by a short pause.
+// Stale clips (text edited after voicing) are ignored until re-voiced. A scene with
+// nothing to say is still shown for one short step.
+const buildSpokenTimeline = (movie: Movie, durations: ClipDurations): Timeline => {
+  const events: TimelineEvent[] = [];
+  const scenes: TimelineEvent[] = [];
+  const useClips = movie.audioMode === 'gemini';
+  let t = 0;
+
+  const step = (event: Omit<TimelineEvent, 'start' | 'end'>) => {
+    const length = durations.get(event.id) ?? estimateSpeechMs(event.text || '');
+    events.push({ ...event, start: t, end: t + length });
+    t += length;
+    events.push({ id: `${event.id}:gap`, kind: 'gap', sceneIndex: event.sceneIndex, start: t, end: t + GAP_MS });
+    t += GAP_MS;
+  };
+
+  movie.scenes.forEach((scene, sceneIndex) => {
+    const sceneEvent: TimelineEvent = { id: scene.id, kind: 'scene', sceneIndex, start: t, end: t };
+    events.push(sceneEvent);
+    scenes.push(sceneEvent);
+
+    const narration = sceneNarration(scene);
+    if (narration || scene.script.length === 0) step({
+      id: narrationEventId(scene),
+      kind: 'narration',
+      sceneIndex,
+      text: narration,
+      audioId: useClips && narration && !scene.narrationStale ? scene.narrationAudio?.assetId : undefined
+    });
+    scene.script.forEach((line, lineIndex) => step({
+      id: dialogueEventId(scene, lineIndex),
+      kind: 'dialogue',
+      sceneIndex,
+      lineIndex,
+      characterId: line.characterId,
+      text: line.text,
+      audioId: useClips && !line.audioStale ? line.audio?.assetId : undefined
+    }));
+    sceneEvent.end = t;
+  });
+
+  return { events, scenes, duration: t };
+};
+
+// Uploaded tracks define scene boundaries; lines share their scene's span evenly
+const buildCustomTimeline = (movie: Movie): Timeline => {
+  const events: TimelineEvent[] = [];
+  const scenes: TimelineEvent[] = [];
+
+  movie.scenes.forEach((scene, sceneIndex) => {
+    const start = (scene.startTime ?? 0) * 1000;
+    const end = scene.endTime !== undefined ? scene.endTime * 1000 : start + (scene.duration || 5) * 1000;
+    const sceneEvent: TimelineEvent = { id: scene.id, kind: 'scene', sceneIndex, start, end };
+    events.push(sceneEvent);
+    scenes.push(sceneEvent);
+    const narration = sceneNarration(scene);
+    if (narration) events.push({ id: narrationEventId(scene), kind: 'narration', sceneIndex, start, end, text: narration });
+
+    const stepMs = scene.script.length > 0 ? (end - start) / scene.script.length : 0;
+    scene.script.forEach((line, lineIndex) => events.push({
+      id: dialogueEventId(scene, lineIndex),
+      kind: 'dialogue',
+      sceneIndex,
+      lineIndex,
+      characterId: line.characterId,
+      text: line.text,
+      start: start + lineIndex * stepMs,
+      end: start + (lineIndex + 1) * stepMs
+    }));
+  });
+
+  events.sort((a, b) => a.start - b.start);
+  return { events, scenes, duration: Math.max(0, ...scenes.map(s => s.end)) };
+};
+
+export const buildTimeline = (movie: Movie, durations: ClipDurations = getClipDurations(movie)): Timeline =>
+  movie.audioMode === 'custom' ? buildCustomTimeline(movie) : buildSpokenTimeline(movie, durations);
+
+// --- QUERIES ---
+
+export const isSpeechEvent = (event: TimelineEvent) => event.kind === 'narration' || event.kind === 'dialogue';
+
+export const sceneIndexAt = (timeline: Timeline, t: number): number => {
+  const index = timeline.scenes.findIndex(s => t >= s.start && t < s.end);
+  if (index !== -1) return index;
+  return t >= timeline.duration ? timeline.scenes.length - 1 : 0;
+};
+
+// The narration or dialogue event playing at time t (gaps return undefined).
+// Dialogue wins where it overlaps a narration span (custom mode).
+export const speechEventAt = (timeline: Timeline, t: number): TimelineEvent | undefined => {
+  const active = timeline.events.filter(e => isSpeechEvent(e) && t >= e.start && t < e.end);
+  return active.find(e => e.kind === 'dialogue') || active[0];
+};
+
+// --- NAVIGATION ---
+
+// Jumping "back" within this window of an item's start goes to the previous item instead
+const BACK_GRACE_MS = 1500;
+
+const uniqueStarts = (events: TimelineEvent[]) => Array.from(new Set(events.map(e => e.start))).sort((a, b) => a - b);
+
+export const sceneStarts = (timeline: Timeline) => uniqueStarts(timeline.scenes);
+export const lineStarts = (timeline: Timeline) => uniqueStarts(timeline.events.filter(isSpeechEvent));
+
+export const nextStart = (starts: number[], t: number): number | undefined => starts.find(s => s > t + 1);
+
+export const previousStart = (starts: number[], t: number): number => {
+  const before = starts.filter(s => s <= t);
+  if (before.length === 0) return 0;
+  const current = before[before.length - 1];
+  if (t - current > BACK_GRACE_MS || before.length === 1) return current;
+  return before[before.length - 2];
+};
+
+export const formatTimecode = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
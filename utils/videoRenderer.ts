@@ -0,0 +1,262 @@
+import { Movie, AspectRatio, Scene } from '../types';
+import { getAssetUrl, getAudioBuffer } from '../services/assetStore';
+import { buildTimeline, sceneIndexAt, speechEventAt } from './timeline';
+import { findCastMember } from './cast';
+
+// Offscreen renderer: draws the movie onto a canvas and records it together with an
+// AudioContext mix, so no screen capture (and no permission prompt) is involved.
+
+const FPS = 30;
+const PAN_ZOOM = 0.05;
+
+export const getRenderResolution = (ratio: AspectRatio): [number, number] => {
+    switch (ratio) {
+        case '9:16': return [720, 1280];
+        case '1:1': return [1080, 1080];
+        case '4:5': return [864, 1080];
+        case '21:9': return [1680, 720];
+        case '16:9':
+        default: return [1280, 720];
+    }
+};
+
+const pickMimeType = (): { mimeType: string; extension: string } => {
+    const candidates = [
+        { mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+        { mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm' },
+        { mimeType: 'video/mp4;codecs=avc1,mp4a', extension: 'mp4' },
+        { mimeType: 'video/webm', extension: 'webm' },
+        { mimeType: 'video/mp4', extension: 'mp4' },
+    ];
+    return candidates.find(c => MediaRecorder.isTypeSupported(c.mimeType)) || { mimeType: '', extension: 'webm' };
+};
+
+// --- DRAWING ---
+
+const loadImage = (src?: string): Promise<HTMLImageElement | undefined> => {
+    if (!src) return Promise.resolve(undefined);
+    return new Promise(resolve => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(undefined);
+        img.src = src;
+    });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const words = text.split(/\s+/);
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+};
+
+const drawBackground = (ctx: CanvasRenderingContext2D, img: HTMLImageElement | undefined, scene: Scene, progress: number, sceneIndex: number) => {
+    const { width, height } = ctx.canvas;
+    if (!img) {
+        ctx.fillStyle = scene.backgroundColor || '#1e293b';
+        ctx.fillRect(0, 0, width, height);
+        return;
+    }
+    // Cover-fit, then a slow zoom with a gentle pan that alternates direction per scene
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight) * (1 + PAN_ZOOM * progress);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    const direction = sceneIndex % 2 === 0 ? 1 : -1;
+    const x = (width - w) / 2 + direction * (w - width) / 2 * (progress - 0.5);
+    const y = (height - h) / 2;
+    ctx.drawImage(img, x, y, w, h);
+};
+
+const drawSubtitle = (ctx: CanvasRenderingContext2D, text: string) => {
+    const { width, height } = ctx.canvas;
+    const gradient = ctx.createLinearGradient(0, height * 0.5, 0, height);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0.8)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, height * 0.5, width, height * 0.5);
+
+    const fontSize = Math.round(Math.min(width, height) / 22);
+    ctx.font = `italic ${fontSize}px Georgia, serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = '#e0e7ff';
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = 4;
+    const lines = wrapText(ctx, `"${text}"`, width * 0.85);
+    const lineHeight = fontSize * 1.35;
+    const bottom = height - fontSize * 1.5;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, bottom - (lines.length - 1 - i) * lineHeight));
+    ctx.shadowBlur = 0;
+};
+
+const drawBubble = (ctx: CanvasRenderingContext2D, speaker: string, color: string, text: string) => {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.round(Math.min(width, height) / 26);
+    const labelSize = Math.round(fontSize * 0.55);
+    const padding = fontSize * 0.8;
+    const maxWidth = Math.min(width * 0.8, fontSize * 28);
+
+    ctx.font = `bold ${fontSize}px "Comic Neue", "Comic Sans MS", cursive`;
+    const lines = wrapText(ctx, text, maxWidth - padding * 2);
+    const lineHeight = fontSize * 1.2;
+    const boxWidth = Math.min(maxWidth, Math.max(...lines.map(l => ctx.measureText(l).width)) + padding * 2);
+    const boxHeight = padding * 2 + labelSize * 1.4 + lines.length * lineHeight;
+    const x = (width - boxWidth) / 2;
+    const y = height - boxHeight - height * 0.06;
+
+    ctx.fillStyle = 'rgba(255,255,255,0.92)';
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.roundRect(x, y, boxWidth, boxHeight, fontSize * 0.8);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = color;
+    ctx.font = `bold ${labelSize}px Inter, sans-serif`;
+    ctx.fillText(speaker.toUpperCase(), width / 2, y + padding);
+
+    ctx.fillStyle = '#000';
+    ctx.font = `bold ${fontSize}px "Comic Neue", "Comic Sans MS", cursive`;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, y + padding + labelSize * 1.4 + i * lineHeight));
+};
+
+// --- PUBLIC API ---
+
+export interface RenderOptions {
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void;
+    onPausedChange?: (paused: boolean) => void; // the tab was hidden, or shown again
+}
+
+export interface RenderResult {
+    blob: Blob;
+    extension: string;
+}
+
+export const renderMovieToVideo = async (movie: Movie, { signal, onProgress, onPausedChange }: RenderOptions = {}): Promise<RenderResult> => {
+    const [width, height] = getRenderResolution(movie.aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx2d = canvas.getContext('2d');
+    if (!ctx2d) throw new Error("Canvas 2D context is not available.");
+
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    const audioCtx: AudioContext = new Ctx();
+    const destination = audioCtx.createMediaStreamDestination();
+
+    try {
+        const timeline = buildTimeline(movie);
+        const images = await Promise.all(movie.scenes.map(async s => loadImage(await getAssetUrl(s.imageId))));
+        const totalDuration = Math.max(0.5, timeline.duration / 1000);
+
+        const videoStream = canvas.captureStream(FPS);
+        const stream = new MediaStream([...videoStream.getVideoTracks(), ...destination.stream.getAudioTracks()]);
+        const { mimeType, extension } = pickMimeType();
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const chunks: BlobPart[] = [];
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+        if (audioCtx.state === 'suspended') await audioCtx.resume();
+
+        // Decode everything up front, then schedule every clip on the audio clock slightly in the future
+        const clips: { start: number; buffer: AudioBuffer }[] = [];
+        if (movie.audioMode === 'custom' && movie.customAudioId) {
+            const buffer = await getAudioBuffer(movie.customAudioId, audioCtx);
+            if (buffer) clips.push({ start: 0, buffer });
+        } else {
+            for (const event of timeline.events) {
+                if (!event.audioId) continue;
+                const buffer = await getAudioBuffer(event.audioId, audioCtx);
+                if (buffer) clips.push({ start: event.start / 1000, buffer });
+                else console.warn("Skipping undecodable clip", event.id);
+            }
+        }
+
+        const t0 = audioCtx.currentTime + 0.2;
+        clips.forEach(clip => {
+            const source = audioCtx.createBufferSource();
+            source.buffer = clip.buffer;
+            source.connect(destination);
+            source.start(t0 + clip.start, 0, Math.max(0, totalDuration - clip.start));
+        });
+
+        // t is in seconds; the timeline is in ms
+        const drawFrame = (t: number) => {
+            const ms = t * 1000;
+            const sceneIndex = sceneIndexAt(timeline, ms);
+            const sceneEvent = timeline.scenes[sceneIndex];
+            if (!sceneEvent) return;
+            const scene = movie.scenes[sceneIndex];
+            const progress = Math.min(1, Math.max(0, (ms - sceneEvent.start) / Math.max(1, sceneEvent.end - sceneEvent.start)));
+
+            ctx2d.clearRect(0, 0, width, height);
+            drawBackground(ctx2d, images[sceneIndex], scene, progress, sceneIndex);
+
+            // Same rule as the player: narration as a subtitle unless a dialogue line is active;
+            // uploaded tracks show no speech bubbles
+            const active = speechEventAt(timeline, ms);
+            if (active?.kind === 'narration' && active.text) {
+                drawSubtitle(ctx2d, active.text);
+            } else if (active?.kind === 'dialogue' && active.text && movie.audioMode !== 'custom') {
+                const speaker = findCastMember(movie, active.characterId || '');
+                drawBubble(ctx2d, speaker?.name || active.characterId || '', speaker?.color || '#4f46e5', active.text);
+            }
+        };
+
+        drawFrame(0);
+        recorder.start(1000);
+
+        // Browsers throttle timers in hidden tabs to about once a second, which would record a
+        // slideshow under running audio. While the tab is hidden the audio clock and the recorder
+        // are paused together; frames follow the audio clock, so the video resumes where it stopped.
+        const handleVisibility = () => {
+            if (recorder.state === 'inactive') return;
+            if (document.hidden) {
+                recorder.pause();
+                audioCtx.suspend();
+            } else {
+                audioCtx.resume();
+                recorder.resume();
+            }
+            onPausedChange?.(document.hidden);
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        if (document.hidden) handleVisibility();
+
+        await new Promise<void>((resolve, reject) => {
+            const tick = () => {
+                if (signal?.aborted) return reject(new DOMException('Render cancelled', 'AbortError'));
+                const t = audioCtx.currentTime - t0;
+                drawFrame(Math.max(0, t));
+                onProgress?.(Math.min(1, Math.max(0, t / totalDuration)));
+                if (t >= totalDuration) return resolve();
+                setTimeout(tick, 1000 / FPS);
+            };
+            tick();
+        }).finally(() => {
+            document.removeEventListener('visibilitychange', handleVisibility);
+            recorder.stop();
+            stream.getTracks().forEach(track => track.stop());
+        });
+
+        await stopped;
+        return { blob: new Blob(chunks, { type: mimeType.split(';')[0] || 'video/webm' }), extension };
+    } finally {
+        audioCtx.close();
+    }
+};